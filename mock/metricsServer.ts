@@ -0,0 +1,44 @@
+import type { Plugin } from 'vite';
+
+// Each metric id drifts on its own random walk, so polled values change like real load
+const loads = new Map<string, number>();
+
+const nextLoad = (id: string) => {
+  const previous = loads.get(id) ?? 0.3 + Math.random() * 0.4;
+  const next = Math.min(0.98, Math.max(0.05, previous + (Math.random() - 0.5) * 0.2));
+  loads.set(id, next);
+  return next;
+};
+
+// Stand-in for real metric endpoints while developing: GET /api/metrics/<id>
+// answers { infoLoad, status }; ?fail=0.3 makes that share of requests fail to exercise retries.
+export const mockMetricsServer = (): Plugin => ({
+  name: 'mock-metrics-server',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/api/metrics', (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const id = decodeURIComponent(url.pathname.slice(1));
+      const failRate = Number(url.searchParams.get('fail') ?? 0);
+
+      res.setHeader('Cache-Control', 'no-store');
+      if (!id) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+      if (Math.random() < failRate) {
+        res.statusCode = 503;
+        res.end();
+        return;
+      }
+
+      const infoLoad = nextLoad(id);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({
+        infoLoad: Math.round(infoLoad * 100) / 100,
+        status: infoLoad > 0.9 ? 'degraded' : 'ok',
+      }));
+    });
+  },
+});
@@ -0,0 +1,91 @@
+import type { ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+const TICK_INTERVAL = 1500;
+
+// Root widgets of the default universe the stream plays with
+const TICKED_WIDGETS = ['lmm-core', 'memory', 'processing', 'analytics', 'tasks', 'meetings'];
+const FLAKY_WIDGETS = ['weather', 'photos', 'reminders'];
+
+const PROBE_WIDGET = {
+  id: 'stream-probe',
+  title: 'Stream Probe',
+  subtitle: 'Pushed by the stream',
+  icon: 'lucide:zap',
+  priority: 'low',
+  infoLoad: 0.2,
+  color: '#5CD0B3',
+  connects: [],
+};
+const PROBE_CONNECTION = { from: 'lmm-core', to: 'stream-probe', type: 'dataFlow' };
+
+const clients = new Set<ServerResponse>();
+let timer: ReturnType<typeof setInterval> | undefined;
+let tick = 0;
+let probeShown = false;
+
+const send = (client: ServerResponse, events: object | object[]) => {
+  client.write(`data: ${JSON.stringify(events)}\n\n`);
+};
+
+const broadcast = (events: object | object[]) => clients.forEach((client) => send(client, events));
+
+// Current probe state, so a client that (re)connects mid-cycle catches up
+const probeEvents = () =>
+  probeShown
+    ? [
+        { type: 'widget.upsert', widget: PROBE_WIDGET },
+        { type: 'connection.upsert', connection: PROBE_CONNECTION },
+      ]
+    : [{ type: 'widget.remove', id: PROBE_WIDGET.id }];
+
+// One shared timeline: metric ticks every step, a flaky widget changes status now and then
+// and the probe widget joins and leaves the root universe every 20 steps
+const step = () => {
+  tick += 1;
+  const id = TICKED_WIDGETS[tick % TICKED_WIDGETS.length];
+  const events: object[] = [{ type: 'metrics', id, infoLoad: Math.round((0.1 + Math.random() * 0.85) * 100) / 100 }];
+
+  if (tick % 7 === 0) {
+    const flaky = FLAKY_WIDGETS[Math.floor(Math.random() * FLAKY_WIDGETS.length)];
+    const status = ['ok', 'degraded', 'down'][Math.floor(Math.random() * 3)];
+    events.push({ type: 'status', id: flaky, status });
+  }
+  if (tick % 20 === 0) {
+    probeShown = !probeShown;
+    events.push(...probeEvents());
+  }
+  broadcast(events);
+};
+
+// Stand-in for a live universe feed while developing: GET /api/stream is an SSE stream of
+// universe events; ?drop=10 ends each connection after ten seconds to exercise reconnects.
+export const mockStreamServer = (): Plugin => ({
+  name: 'mock-stream-server',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/api/stream', (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const drop = Number(url.searchParams.get('drop') ?? 0);
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-store',
+        Connection: 'keep-alive',
+      });
+      clients.add(res);
+      send(res, probeEvents());
+      timer ??= setInterval(step, TICK_INTERVAL);
+
+      const dropTimer = drop > 0 ? setTimeout(() => res.end(), drop * 1000) : undefined;
+      res.on('close', () => {
+        clearTimeout(dropTimer);
+        clients.delete(res);
+        if (clients.size === 0) {
+          clearInterval(timer);
+          timer = undefined;
+        }
+      });
+    });
+  },
+});
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { ArrowLeftRight, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { FIELD_CLASS, InspectorSheet, LABEL_CLASS, MENU_CLASS, ReadOnlyHint } from './InspectorSheet';
+import { useLiveForm } from './useLiveForm';
+import { connectionTypeSchema } from './universeSchema';
+import { connectionKey } from './layout';
+import type { Connection, ConnectionType, UniverseDocument } from './types';
+
+// Form side of a connection; the ends are changed with the reverse button, not typed
+interface ConnectionValues {
+  type: ConnectionType;
+  label: string;
+  weight: string;
+  description: string;
+  payloadSchema: string;
+}
+
+const connectionFormSchema = z.object({
+  type: connectionTypeSchema,
+  label: z.string(),
+  weight: z.string().refine(
+    (value) => value.trim() === '' || (Number.isFinite(Number(value)) && Number(value) >= 0),
+    'Число ≥ 0'
+  ),
+  description: z.string(),
+  payloadSchema: z.string(),
+}) as z.ZodType<ConnectionValues, z.ZodTypeDef, unknown>;
+
+const toValues = (connection: Connection): ConnectionValues => ({
+  type: connection.type,
+  label: connection.label ?? '',
+  weight: connection.weight === undefined ? '' : String(connection.weight),
+  description: connection.description ?? '',
+  payloadSchema: connection.payloadSchema ?? '',
+});
+
+// Blank fields are left out; a payload schema only belongs to Data Flow
+const toConnection = ({ from, to }: Connection, values: ConnectionValues): Connection => ({
+  from,
+  to,
+  type: values.type,
+  label: values.label || undefined,
+  weight: values.weight.trim() === '' ? undefined : Number(values.weight),
+  description: values.description || undefined,
+  payloadSchema: values.type === 'dataFlow' && values.payloadSchema ? values.payloadSchema : undefined,
+});
+
+const TEXTAREA_CLASS = 'min-h-16 bg-transparent border-white/15 text-[13px] text-white';
+
+interface ConnectionInspectorProps {
+  universe: UniverseDocument;
+  connection: Connection | undefined;
+  // Outside edit mode the connection is only shown, since undo lives in edit mode
+  readOnly: boolean;
+  onClose: () => void;
+  onChange: (connection: Connection) => void;
+  onReverse: (connection: Connection) => void;
+  onRemove: (connection: Connection) => void;
+}
+
+// Sheet for the connection picked in the scene
+export const ConnectionInspector = ({ universe, connection, onClose, ...handlers }: ConnectionInspectorProps) => (
+  <InspectorSheet open={!!connection} onOpenChange={(open) => !open && onClose()}>
+    {connection && (
+      <InspectorBody key={connectionKey(connection)} universe={universe} connection={connection} {...handlers} />
+    )}
+  </InspectorSheet>
+);
+
+type InspectorBodyProps = Omit<ConnectionInspectorProps, 'onClose' | 'connection'> & { connection: Connection };
+
+const InspectorBody = ({ universe, connection, readOnly, onChange, onReverse, onRemove }: InspectorBodyProps) => {
+  const form = useLiveForm({ schema: connectionFormSchema, source: connection, toValues, fromValues: toConnection, onChange });
+  const types = Object.keys(universe.styles) as ConnectionType[];
+  const style = universe.styles[connection.type];
+  const widgetOf = (id: string) => universe.widgets.find(w => w.id === id);
+  // Reversing would collide with the existing connection the other way
+  const canReverse = !universe.connections.some(c => c.from === connection.to && c.to === connection.from);
+
+  const end = (label: string, id: string) => (
+    <div className="flex items-center gap-2 text-[13px] font-light text-white/80">
+      <span className="w-10 text-[12px] text-white/40">{label}</span>
+      <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: widgetOf(id)?.color }} />
+      <span className="truncate">{widgetOf(id)?.title ?? id}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5">
+      <SheetHeader>
+        <SheetTitle className="text-[16px] font-normal" style={{ color: style.color }}>
+          {connection.label || style.label}
+        </SheetTitle>
+        <SheetDescription className="text-[12px] text-white/40">{connection.from} → {connection.to}</SheetDescription>
+      </SheetHeader>
+      {readOnly && <ReadOnlyHint />}
+
+      <div className="flex items-center gap-2">
+        <div className="flex-1 space-y-1">
+          {end('Откуда', connection.from)}
+          {end('Куда', connection.to)}
+        </div>
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={!canReverse}
+            onClick={() => onReverse(connection)}
+            title={canReverse ? 'Развернуть' : 'Обратная связь уже есть'}
+            className="h-8 w-8 rounded-md hover:bg-white/5"
+            style={{ color: '#58C4DD' }}
+          >
+            <ArrowLeftRight className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={(event) => event.preventDefault()}>
+          <fieldset disabled={readOnly} className="min-w-0 space-y-4">
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={LABEL_CLASS}>Тип</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className={FIELD_CLASS}><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent className={MENU_CLASS}>
+                      {types.map(t => <SelectItem key={t} value={t}>{universe.styles[t].label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-[1fr_5rem] gap-3">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={LABEL_CLASS}>Подпись</FormLabel>
+                    <FormControl><Input className={FIELD_CLASS} {...field} /></FormControl>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weight"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={LABEL_CLASS}>Вес</FormLabel>
+                    <FormControl><Input className={FIELD_CLASS} inputMode="decimal" title={universe.weightScale?.label} {...field} /></FormControl>
+                    <FormMessage className="text-[11px]" />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={LABEL_CLASS}>Описание</FormLabel>
+                  <FormControl><Textarea className={TEXTAREA_CLASS} {...field} /></FormControl>
+                </FormItem>
+              )}
+            />
+            {form.watch('type') === 'dataFlow' && (
+              <FormField
+                control={form.control}
+                name="payloadSchema"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={LABEL_CLASS}>Схема данных</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        className={`${TEXTAREA_CLASS} font-mono text-[12px]`}
+                        placeholder={'{ "query": "string", "limit": "number" }'}
+                        {...field}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+          </fieldset>
+        </form>
+      </Form>
+
+      {!readOnly && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onRemove(connection)}
+          className="h-7 w-full gap-1.5 text-[12px] hover:bg-white/5"
+          style={{ color: '#FC6255' }}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Удалить связь
+        </Button>
+      )}
+    </div>
+  );
+};
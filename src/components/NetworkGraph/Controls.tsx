@@ -1,5 +1,6 @@
 import { Button } from '@/components/ui/button';
-import { Play, Pause, RotateCcw, Maximize, ArrowLeft } from 'lucide-react';
+import { Play, Pause, RotateCcw, Maximize, ArrowLeft, ArrowRight, Network, Workflow, Focus, Search, Route, TriangleAlert, Pencil } from 'lucide-react';
+import type { LayoutMode } from './layout';
 
 interface ControlsProps {
   isPaused: boolean;
@@ -8,9 +9,42 @@ interface ControlsProps {
   onFullscreen: () => void;
   canGoBack?: boolean;
   onGoBack?: () => void;
+  canGoForward?: boolean;
+  onGoForward?: () => void;
+  layoutMode?: LayoutMode;
+  onToggleLayout?: () => void;
+  focusLayout?: boolean;
+  onToggleFocusLayout?: () => void;
+  onOpenSearch?: () => void;
+  pathMode?: boolean;
+  onTogglePathMode?: () => void;
+  impactMode?: boolean;
+  onToggleImpactMode?: () => void;
+  editMode?: boolean;
+  onToggleEditMode?: () => void;
 }
 
-export const Controls = ({ isPaused, onTogglePause, onReset, onFullscreen, canGoBack, onGoBack }: ControlsProps) => {
+export const Controls = ({
+  isPaused,
+  onTogglePause,
+  onReset,
+  onFullscreen,
+  canGoBack,
+  onGoBack,
+  canGoForward,
+  onGoForward,
+  layoutMode,
+  onToggleLayout,
+  focusLayout,
+  onToggleFocusLayout,
+  onOpenSearch,
+  pathMode,
+  onTogglePathMode,
+  impactMode,
+  onToggleImpactMode,
+  editMode,
+  onToggleEditMode,
+}: ControlsProps) => {
   return (
     <div 
       className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-3 px-4 py-2 rounded-lg transition-all duration-500"
@@ -19,13 +53,14 @@ export const Controls = ({ isPaused, onTogglePause, onReset, onFullscreen, canGo
         border: '1px solid rgba(88, 196, 221, 0.2)',
       }}
     >
-      {/* Кнопка назад */}
-      {canGoBack && (
+      {/* Back / forward */}
+      {(canGoBack || canGoForward) && (
         <>
           <Button
             variant="ghost"
             size="icon"
             onClick={onGoBack}
+            disabled={!canGoBack}
             className="h-9 w-9 rounded-md transition-all duration-300"
             style={{
               color: '#58C4DD',
@@ -34,6 +69,21 @@ export const Controls = ({ isPaused, onTogglePause, onReset, onFullscreen, canGo
           >
             <ArrowLeft className="h-4 w-4" />
           </Button>
+
+          {canGoForward && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onGoForward}
+              className="h-9 w-9 rounded-md transition-all duration-300"
+              style={{
+                color: '#58C4DD',
+                background: 'rgba(88, 196, 221, 0.15)',
+              }}
+            >
+              <ArrowRight className="h-4 w-4" />
+            </Button>
+          )}
           
           <div className="w-px h-5" style={{ background: 'rgba(88, 196, 221, 0.2)' }} />
         </>
@@ -54,6 +104,105 @@ export const Controls = ({ isPaused, onTogglePause, onReset, onFullscreen, canGo
       
       <div className="w-px h-5" style={{ background: 'rgba(88, 196, 221, 0.2)' }} />
       
+      {/* Layout: force / layered */}
+      {onToggleLayout && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onToggleLayout}
+            className="h-9 w-9 rounded-md transition-all duration-300"
+            style={{
+              color: layoutMode === 'layered' ? '#58C4DD' : 'rgba(255,255,255,0.7)',
+              background: layoutMode === 'layered' ? 'rgba(88, 196, 221, 0.15)' : 'transparent',
+            }}
+          >
+            {layoutMode === 'layered' ? <Workflow className="h-4 w-4" /> : <Network className="h-4 w-4" />}
+          </Button>
+
+          {/* Radial layout around the selected widget */}
+          {onToggleFocusLayout && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onToggleFocusLayout}
+              className="h-9 w-9 rounded-md transition-all duration-300"
+              style={{
+                color: focusLayout ? '#58C4DD' : 'rgba(255,255,255,0.7)',
+                background: focusLayout ? 'rgba(88, 196, 221, 0.15)' : 'transparent',
+              }}
+            >
+              <Focus className="h-4 w-4" />
+            </Button>
+          )}
+
+          <div className="w-px h-5" style={{ background: 'rgba(88, 196, 221, 0.2)' }} />
+        </>
+      )}
+
+      {/* Shortest route between two widgets */}
+      {onTogglePathMode && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onTogglePathMode}
+          className="h-9 w-9 rounded-md transition-all duration-300"
+          style={{
+            color: pathMode ? '#58C4DD' : 'rgba(255,255,255,0.7)',
+            background: pathMode ? 'rgba(88, 196, 221, 0.15)' : 'transparent',
+          }}
+        >
+          <Route className="h-4 w-4" />
+        </Button>
+      )}
+
+      {/* What breaks when a widget fails */}
+      {onToggleImpactMode && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onToggleImpactMode}
+          className="h-9 w-9 rounded-md transition-all duration-300"
+          style={{
+            color: impactMode ? '#FC6255' : 'rgba(255,255,255,0.7)',
+            background: impactMode ? 'rgba(252, 98, 85, 0.15)' : 'transparent',
+          }}
+        >
+          <TriangleAlert className="h-4 w-4" />
+        </Button>
+      )}
+
+      {/* Graph editing */}
+      {onToggleEditMode && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onToggleEditMode}
+          title="Редактировать"
+          className="h-9 w-9 rounded-md transition-all duration-300"
+          style={{
+            color: editMode ? '#58C4DD' : 'rgba(255,255,255,0.7)',
+            background: editMode ? 'rgba(88, 196, 221, 0.15)' : 'transparent',
+          }}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+      )}
+
+      {/* Widget search (Ctrl+K) */}
+      {onOpenSearch && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onOpenSearch}
+          title="Поиск (Ctrl+K)"
+          className="h-9 w-9 rounded-md transition-all duration-300 hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.7)' }}
+        >
+          <Search className="h-4 w-4" />
+        </Button>
+      )}
+
       <Button
         variant="ghost"
         size="icon"
@@ -0,0 +1,131 @@
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { WIDGET_TEMPLATES, type WidgetTemplate } from './editor';
+import type { ConnectionType, UniverseDocument } from './types';
+
+interface EditorPanelProps {
+  universe: UniverseDocument;
+  selectedWidget: string | null;
+  // Moves aside while the widget inspector covers the right edge
+  isShifted?: boolean;
+  connectionType: ConnectionType;
+  onConnectionTypeChange: (type: ConnectionType) => void;
+  onAddWidget: (template: WidgetTemplate) => void;
+  onDeleteWidget: (widgetId: string) => void;
+  isEdited: boolean;
+  onResetEdits: () => void;
+  onClose: () => void;
+}
+
+// Edit mode palette; moving and connecting happen by dragging in the scene
+export const EditorPanel = ({
+  universe,
+  selectedWidget,
+  isShifted,
+  connectionType,
+  onConnectionTypeChange,
+  onAddWidget,
+  onDeleteWidget,
+  isEdited,
+  onResetEdits,
+  onClose,
+}: EditorPanelProps) => {
+  const selected = universe.widgets.find(w => w.id === selectedWidget);
+  const types = Object.keys(universe.styles) as ConnectionType[];
+
+  return (
+    <div
+      className={`absolute top-8 ${isShifted ? 'right-[26rem]' : 'right-8'} z-10 w-64 px-4 py-3 rounded-lg space-y-3 transition-[right] duration-500`}
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[14px]" style={{ color: '#58C4DD' }}>Редактор</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-6 w-6 rounded-md hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.7)' }}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="text-[12px] font-light" style={{ color: 'rgba(88, 196, 221, 0.7)' }}>
+        Перетащите виджет, чтобы сдвинуть его. Тяните от точки справа к другому виджету, чтобы связать их.
+      </div>
+
+      {/* Palette of new widgets */}
+      <div className="space-y-1">
+        {WIDGET_TEMPLATES.map((template) => (
+          <button
+            key={template.title}
+            type="button"
+            onClick={() => onAddWidget(template)}
+            className="flex w-full items-center gap-2 px-2 py-1 rounded text-[13px] text-white/80 hover:bg-white/5"
+          >
+            <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: template.color }} />
+            {template.title}
+            <Plus className="ml-auto h-3.5 w-3.5 text-white/40" />
+          </button>
+        ))}
+      </div>
+
+      {/* Type of new connections */}
+      <div className="space-y-1.5">
+        <div className="text-[12px] font-light text-white/70">Новая связь</div>
+        <div className="flex flex-wrap gap-1.5">
+          {types.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => onConnectionTypeChange(type)}
+              className="px-2 py-0.5 rounded text-[11px] transition-opacity"
+              style={{
+                color: universe.styles[type].color,
+                border: `1px solid ${universe.styles[type].color}`,
+                opacity: type === connectionType ? 1 : 0.35,
+              }}
+            >
+              {universe.styles[type].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-[13px] font-light text-white/80">
+        <span className="truncate">
+          {selected ? selected.title : <span className="text-white/40">Виджет не выбран</span>}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={!selected}
+          onClick={() => selected && onDeleteWidget(selected.id)}
+          title="Удалить (Delete)"
+          className="h-7 gap-1.5 px-2 hover:bg-white/5"
+          style={{ color: '#FC6255' }}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Удалить
+        </Button>
+      </div>
+
+      {isEdited && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onResetEdits}
+          className="h-7 w-full text-[12px] hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.5)' }}
+        >
+          Сбросить все изменения
+        </Button>
+      )}
+    </div>
+  );
+};
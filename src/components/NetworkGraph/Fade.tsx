@@ -0,0 +1,80 @@
+import { useRef, type ComponentProps, type ElementRef } from 'react';
+import { useFrame, type MeshBasicMaterialProps } from '@react-three/fiber';
+import { Text, Line } from '@react-three/drei';
+import * as THREE from 'three';
+import { useFrameClock, useLevelFade } from './frameClock';
+import { FONTS } from './fonts';
+
+// Opacity multiplier evaluated every frame from the shared clock
+type Pulse = (time: number) => number;
+
+// Opacity of the element times the fade of its universe level, applied without re-rendering
+const useFadedOpacity = (opacity: number, pulse?: Pulse) => {
+  const clock = useFrameClock();
+  const fade = useLevelFade();
+  return () => opacity * fade.opacity * (pulse ? pulse(clock.time) : 1);
+};
+
+interface FadeMaterialProps extends Omit<MeshBasicMaterialProps, 'ref' | 'opacity' | 'transparent'> {
+  opacity?: number;
+  pulse?: Pulse;
+}
+
+export const FadeMaterial = ({ opacity = 1, pulse, ...props }: FadeMaterialProps) => {
+  const ref = useRef<THREE.MeshBasicMaterial>(null);
+  const faded = useFadedOpacity(opacity, pulse);
+
+  useFrame(() => {
+    if (ref.current) ref.current.opacity = faded();
+  });
+
+  return <meshBasicMaterial ref={ref} transparent opacity={0} {...props} />;
+};
+
+type FadeTextProps = Omit<ComponentProps<typeof Text>, 'ref'> & { pulse?: Pulse };
+
+// Widget and legend text is set in the body face unless a font is given
+export const FadeText = ({ fillOpacity = 1, pulse, font = FONTS.body, ...props }: FadeTextProps) => {
+  // troika applies fillOpacity when it renders, so writing the field is enough
+  const ref = useRef<{ fillOpacity: number }>(null);
+  const faded = useFadedOpacity(fillOpacity, pulse);
+
+  useFrame(() => {
+    if (ref.current) ref.current.fillOpacity = faded();
+  });
+
+  return <Text ref={ref} font={font} fillOpacity={0} {...props} />;
+};
+
+type FadeLineProps = Omit<ComponentProps<typeof Line>, 'ref' | 'transparent'> & {
+  pulse?: Pulse;
+  // Drawn share of the line, 0-1, read every frame; the line grows from its first point
+  reveal?: () => number;
+  // Points read every frame, for lines that move with their widgets; a new array is written to the geometry
+  follow?: () => THREE.Vector3[];
+};
+
+export const FadeLine = ({ opacity = 1, pulse, reveal, follow, ...props }: FadeLineProps) => {
+  const ref = useRef<ElementRef<typeof Line>>(null);
+  const drawnRef = useRef<{ geometry: unknown; points: THREE.Vector3[] } | null>(null);
+  const faded = useFadedOpacity(opacity, pulse);
+
+  useFrame(() => {
+    const line = ref.current;
+    if (!line) return;
+    line.material.opacity = faded();
+    if (follow) {
+      const points = follow();
+      const drawn = drawnRef.current;
+      if (drawn?.geometry !== line.geometry || drawn.points !== points) {
+        line.geometry.setPositions(points.flatMap(p => [p.x, p.y, p.z]));
+        line.computeLineDistances();
+        drawnRef.current = { geometry: line.geometry, points };
+      }
+    }
+    // Every segment is one instance, so drawing fewer instances cuts the line short
+    if (reveal) line.geometry.instanceCount = Math.ceil(reveal() * line.geometry.attributes.instanceStart.count);
+  });
+
+  return <Line ref={ref} transparent opacity={0} {...props} />;
+};
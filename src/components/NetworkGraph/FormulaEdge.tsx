@@ -2,6 +2,7 @@ import { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
+import { FONTS } from './fonts';
 
 interface FormulaEdgeProps {
   start: [number, number, number];
@@ -111,6 +112,7 @@ export const FormulaEdge = ({ start, end, opacity, formulaIndex }: FormulaEdgePr
       {/* Animated formula text */}
       <Text
         ref={textRef}
+        font={FONTS.math}
         fontSize={0.08}
         color="#58C4DD"
         anchorX="center"
@@ -1,23 +1,75 @@
-import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import { useRef, useState, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, Text, Line } from '@react-three/drei';
 import * as THREE from 'three';
-import { FractalUniverse } from './FractalUniverse';
+import { FractalUniverse, UNIVERSE_TILT, type UniverseEditor } from './FractalUniverse';
+import { FadeLine } from './Fade';
+import { FONTS } from './fonts';
+import { createInstanceOpacity, createInstancedFadeMaterial } from './instancing';
+import { FrameClockContext, useFrameClock, type FrameClock, type LevelFade } from './frameClock';
+import type { Connection, ImpactAnalysis, LegendFilter, PathHighlight, UniverseDocument } from './types';
+import type { LiveMetrics } from './stream';
+import { DEFAULT_UNIVERSE, isSamePath, resolveChildUniverse } from './universe';
+import { layoutUniverse, type LayoutMode } from './layout';
+import { EMPTY_LEGEND_FILTER, type LegendEntry } from './legendFilter';
 
 interface UniverseLevel {
   id: number;
   depth: number;
+  path: string[]; // widget ids dived through from the root
+  title: string; // universe title for the root, then the widget dived into
+  universe: UniverseDocument;
   position: [number, number, number];
   targetScale: number;
-  currentScale: number;
-  opacity: number;
+  selectedWidget: string | null;
+}
+
+// How widgets of every level are arranged; the focus layout follows each level's selection
+interface LevelLayout {
+  mode: LayoutMode;
+  focus: boolean;
 }
 
 interface FractalSceneProps {
+  universe?: UniverseDocument;
+  layoutMode?: LayoutMode;
+  focusLayout?: boolean;
+  legendFilter?: LegendFilter;
+  onToggleLegendEntry?: (entry: LegendEntry) => void;
+  // Path and impact modes, drawn on the active level only
+  pathHighlight?: PathHighlight | null;
+  impact?: ImpactAnalysis | null;
+  onPickWidget?: (widgetId: string) => void;
+  // Streamed metric ticks, by level path
+  liveMetrics?: LiveMetrics;
+  // Edit mode on the active level; the camera stops orbiting so drags move widgets instead
+  editor?: UniverseEditor;
+  // Connection open in the inspector, by connectionKey on the active level
+  selectedConnection?: string | null;
+  onSelectConnection?: (connection: Connection | null) => void;
   isPaused: boolean;
   onReset: () => void;
   resetTrigger: number;
-  onDepthChange?: (depth: number, goBack: () => void) => void;
+  initialPath?: string[];
+  initialSelection?: string | null;
+  initialCamera?: [number, number, number] | null;
+  onNavigationChange?: (navigation: UniverseNavigation) => void;
+  onCameraChange?: (position: [number, number, number]) => void;
+}
+
+// Snapshot of the dive history handed to the overlay
+export interface UniverseNavigation {
+  depth: number;
+  levels: { path: string[]; title: string; universe: UniverseDocument }[];
+  selectedWidget: string | null;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  goBack: () => void;
+  goForward: () => void;
+  jumpTo: (depth: number) => void;
+  navigateToPath: (path: string[], selectedWidget?: string | null) => void;
+  // Dives to the level at the path, selects the widget and brings the camera close to it
+  flyToWidget: (path: string[], widgetId: string) => void;
 }
 
 // 3B1B style colors
@@ -38,226 +90,450 @@ const COLORS = {
   darkGrey: '#444444',
 };
 
-// Subtle grid plane - 3B1B signature element
-const SubtleGrid = ({ time }: { time: number }) => {
-  const gridLines = useMemo(() => {
-    const lines: { start: THREE.Vector3; end: THREE.Vector3; axis: 'x' | 'z' }[] = [];
+// Child universes float slightly in front of the widget they belong to
+const CHILD_UNIVERSE_OFFSET = 0.3;
+
+// Levels further than this above the active one are not rendered
+const RENDERED_ANCESTORS = 2;
+
+// Only the active level, its nearest ancestors and the next level on the forward history are mounted
+const isLevelRendered = (depth: number, activeDepth: number) =>
+  depth >= activeDepth - RENDERED_ANCESTORS && depth <= activeDepth + 1;
+
+// Resting opacity: the active level in full, its parent dimmed behind it
+const levelOpacity = (depth: number, activeDepth: number) =>
+  depth === activeDepth ? 1 : depth === activeDepth - 1 ? 0.3 : 0;
+
+let nextLevelId = 1;
+
+const createRootLevel = (universe: UniverseDocument): UniverseLevel => ({
+  id: 0,
+  depth: 0,
+  path: [],
+  title: universe.title,
+  universe,
+  position: [0, 0, 0],
+  targetScale: 1,
+  selectedWidget: null,
+});
+
+const levelLayout = (level: UniverseLevel, { mode, focus }: LevelLayout) =>
+  layoutUniverse(level.universe, mode, focus ? level.selectedWidget : null);
+
+// Where a widget rests in world space once its level has finished scaling in
+const widgetWorldPosition = (level: UniverseLevel, widgetId: string, layout: LevelLayout) => {
+  const { x, y } = levelLayout(level, layout).positions[widgetId];
+  return new THREE.Vector3(x, y, 0)
+    .applyEuler(new THREE.Euler(UNIVERSE_TILT, 0, 0))
+    .multiplyScalar(level.targetScale)
+    .add(new THREE.Vector3(...level.position));
+};
+
+// Placed from the parent's resting pose so dives and restored links land in the same spot
+const childLevelPosition = (parent: UniverseLevel, widgetId: string, layout: LevelLayout): [number, number, number] => {
+  const position = widgetWorldPosition(parent, widgetId, layout);
+  return [position.x, position.y, position.z + CHILD_UNIVERSE_OFFSET];
+};
+
+const createChildLevel = (parent: UniverseLevel, widgetId: string, layout: LevelLayout): UniverseLevel | null => {
+  const widget = parent.universe.widgets.find(w => w.id === widgetId);
+  const child = widget ? resolveChildUniverse(parent.universe, widget) : null;
+  if (!child) return null;
+
+  return {
+    id: nextLevelId++,
+    depth: parent.depth + 1,
+    path: [...parent.path, widgetId],
+    title: widget.title,
+    universe: child,
+    position: childLevelPosition(parent, widgetId, layout),
+    targetScale: 0.3,
+    selectedWidget: null,
+  };
+};
+
+// Follows the path from the root as far as it resolves, reusing levels already in the history
+const buildLevels = (history: UniverseLevel[], path: string[], layout: LevelLayout): UniverseLevel[] => {
+  const levels = [history[0]];
+  for (const widgetId of path) {
+    const parent = levels[levels.length - 1];
+    const existing = history[levels.length];
+    if (existing && isSamePath(existing.path, [...parent.path, widgetId])) {
+      levels.push(existing);
+      continue;
+    }
+    const next = createChildLevel(parent, widgetId, layout);
+    if (!next) break;
+    levels.push(next);
+  }
+  return levels;
+};
+
+// Re-anchors every level on its parent after the layout or a focused selection changed
+const repositionLevels = (history: UniverseLevel[], layout: LevelLayout): UniverseLevel[] =>
+  history.reduce<UniverseLevel[]>((levels, level, i) => {
+    const position = i === 0 ? level.position : childLevelPosition(levels[i - 1], level.path[i - 1], layout);
+    return [...levels, { ...level, position }];
+  }, []);
+
+// Re-resolves the history against an updated document. The stack ends before a level whose widget
+// or universe is gone, and selections of removed widgets are cleared.
+const refreshLevels = (history: UniverseLevel[], universe: UniverseDocument, layout: LevelLayout): UniverseLevel[] => {
+  const levels: UniverseLevel[] = [];
+  for (const level of history) {
+    const parent = levels[levels.length - 1];
+    const widget = parent?.universe.widgets.find(w => w.id === level.path[level.path.length - 1]);
+    const resolved = parent ? widget && resolveChildUniverse(parent.universe, widget) : universe;
+    if (!resolved) break;
+
+    const selectedWidget = resolved.widgets.some(w => w.id === level.selectedWidget) ? level.selectedWidget : null;
+    levels.push({ ...level, title: widget?.title ?? resolved.title, universe: resolved, selectedWidget });
+  }
+  return repositionLevels(levels, layout);
+};
+
+// Camera sits in front of the level; the root is viewed from further away
+const cameraPositionFor = (level: UniverseLevel) =>
+  new THREE.Vector3(...level.position).add(new THREE.Vector3(0, 0, level.depth === 0 ? 1.2 : 0.8));
+
+// Distance from a flown-to widget, in units of its level's scale
+const WIDGET_VIEW_DISTANCE = 1.2;
+
+type Point3 = [number, number, number];
+
+// Decorative mathematical points in 3B1B style
+const DECORATIVE_POINTS: { position: Point3; color: string; size: number }[] = [
+  { position: [-3, 0.5, -2], color: COLORS.blue, size: 0.03 },
+  { position: [3.5, 0.2, -1.5], color: COLORS.teal, size: 0.025 },
+  { position: [-2, -0.3, 2], color: COLORS.purple, size: 0.02 },
+  { position: [2.5, 0.8, 2.5], color: COLORS.gold, size: 0.025 },
+  { position: [0, 1.2, -3], color: COLORS.lightBlue, size: 0.03 },
+  { position: [-3.5, -0.5, 0], color: COLORS.pink, size: 0.02 },
+];
+
+// Subtle connecting curves between the points
+const DECORATIVE_CURVES: { start: Point3; end: Point3; color: string }[] = [
+  { start: [-3, 0.5, -2], end: [0, 1.2, -3], color: COLORS.blue },
+  { start: [3.5, 0.2, -1.5], end: [2.5, 0.8, 2.5], color: COLORS.teal },
+  { start: [-2, -0.3, 2], end: [-3.5, -0.5, 0], color: COLORS.purple },
+];
+
+// Gentle orbiting accents
+const ORBITING_ACCENTS = [
+  { radius: 4, color: COLORS.blue, speed: 0.08, yOffset: 0 },
+  { radius: 5, color: COLORS.teal, speed: -0.05, yOffset: 0.5 },
+  { radius: 3.5, color: COLORS.purple, speed: 0.06, yOffset: -0.3 },
+];
+
+const ACCENT_SIZE = 0.02;
+
+// Scratch matrix for per-frame instance updates
+const matrix = new THREE.Matrix4();
+
+// Subtle grid plane - 3B1B signature element, batched into two segment draws
+const SubtleGrid = () => {
+  const { axes, lines } = useMemo(() => {
+    const axes: THREE.Vector3[] = [];
+    const lines: THREE.Vector3[] = [];
     const size = 8;
     const divisions = 16;
     const step = size / divisions;
     
     for (let i = -divisions / 2; i <= divisions / 2; i++) {
       const pos = i * step;
+      const target = i === 0 ? axes : lines;
       // X-axis lines
-      lines.push({
-        start: new THREE.Vector3(-size / 2, -2, pos),
-        end: new THREE.Vector3(size / 2, -2, pos),
-        axis: 'x'
-      });
+      target.push(new THREE.Vector3(-size / 2, -2, pos), new THREE.Vector3(size / 2, -2, pos));
       // Z-axis lines
-      lines.push({
-        start: new THREE.Vector3(pos, -2, -size / 2),
-        end: new THREE.Vector3(pos, -2, size / 2),
-        axis: 'z'
-      });
+      target.push(new THREE.Vector3(pos, -2, -size / 2), new THREE.Vector3(pos, -2, size / 2));
     }
-    return lines;
+    return { axes, lines };
   }, []);
 
   return (
     <group>
-      {gridLines.map((line, i) => {
-        const isMainAxis = Math.abs(line.start.x) < 0.01 || Math.abs(line.start.z) < 0.01;
-        const opacity = isMainAxis ? 0.15 : 0.04;
-        
-        return (
-          <Line
-            key={i}
-            points={[line.start, line.end]}
-            color={COLORS.blue}
-            lineWidth={isMainAxis ? 1.5 : 0.5}
-            transparent
-            opacity={opacity}
-          />
-        );
-      })}
+      <Line segments points={lines} color={COLORS.blue} lineWidth={0.5} transparent opacity={0.04} />
+      <Line segments points={axes} color={COLORS.blue} lineWidth={1.5} transparent opacity={0.15} />
     </group>
   );
 };
 
-// Gentle floating mathematical point
-const MathPoint = ({ 
-  position, 
-  color, 
-  size, 
-  time, 
-  index 
-}: { 
-  position: [number, number, number];
-  color: string;
-  size: number;
-  time: number;
-  index: number;
-}) => {
-  // Very gentle, smooth oscillation - 3B1B style
-  const y = position[1] + Math.sin(time * 0.3 + index * 0.5) * 0.1;
-  const pulse = 0.8 + Math.sin(time * 0.5 + index * 0.7) * 0.2;
-  
+// Floating points and orbiting accents share instanced spheres: cores, then the soft glow around points
+const MathPoints = () => {
+  const coresRef = useRef<THREE.InstancedMesh>(null);
+  const glowsRef = useRef<THREE.InstancedMesh>(null);
+  const clock = useFrameClock();
+  const coreCount = DECORATIVE_POINTS.length + ORBITING_ACCENTS.length;
+  const { coreMaterial, glowMaterial, coreOpacity, glowOpacity } = useMemo(() => ({
+    coreMaterial: createInstancedFadeMaterial(),
+    glowMaterial: createInstancedFadeMaterial(),
+    coreOpacity: createInstanceOpacity(coreCount),
+    glowOpacity: createInstanceOpacity(DECORATIVE_POINTS.length),
+  }), [coreCount]);
+
+  useEffect(() => () => {
+    coreMaterial.dispose();
+    glowMaterial.dispose();
+  }, [coreMaterial, glowMaterial]);
+
+  useLayoutEffect(() => {
+    const cores = coresRef.current;
+    const glows = glowsRef.current;
+    if (!cores || !glows) return;
+    cores.geometry.setAttribute('instanceOpacity', coreOpacity);
+    glows.geometry.setAttribute('instanceOpacity', glowOpacity);
+    const color = new THREE.Color();
+    DECORATIVE_POINTS.forEach((point, i) => {
+      cores.setColorAt(i, color.set(point.color));
+      glows.setColorAt(i, color);
+    });
+    ORBITING_ACCENTS.forEach((accent, i) => cores.setColorAt(DECORATIVE_POINTS.length + i, color.set(accent.color)));
+  }, [coreOpacity, glowOpacity]);
+
+  useFrame(() => {
+    const cores = coresRef.current;
+    const glows = glowsRef.current;
+    if (!cores || !glows) return;
+    const time = clock.time;
+
+    // Very gentle, smooth oscillation - 3B1B style
+    DECORATIVE_POINTS.forEach(({ position, size }, i) => {
+      const y = position[1] + Math.sin(time * 0.3 + i * 0.5) * 0.1;
+      const pulse = 0.8 + Math.sin(time * 0.5 + i * 0.7) * 0.2;
+      cores.setMatrixAt(i, matrix.makeScale(size, size, size).setPosition(position[0], y, position[2]));
+      glows.setMatrixAt(i, matrix.makeScale(size * 2, size * 2, size * 2).setPosition(position[0], y, position[2]));
+      coreOpacity.setX(i, pulse * 0.9);
+      glowOpacity.setX(i, pulse * 0.15);
+    });
+
+    ORBITING_ACCENTS.forEach(({ radius, speed, yOffset }, i) => {
+      const angle = time * speed;
+      const index = DECORATIVE_POINTS.length + i;
+      cores.setMatrixAt(index, matrix
+        .makeScale(ACCENT_SIZE, ACCENT_SIZE, ACCENT_SIZE)
+        .setPosition(Math.cos(angle) * radius, yOffset, Math.sin(angle) * radius));
+      coreOpacity.setX(index, (0.6 + Math.sin(time * 0.8) * 0.4) * 0.5);
+    });
+
+    cores.instanceMatrix.needsUpdate = true;
+    glows.instanceMatrix.needsUpdate = true;
+    coreOpacity.needsUpdate = true;
+    glowOpacity.needsUpdate = true;
+  });
+
   return (
-    <group position={[position[0], y, position[2]]}>
-      {/* Core */}
-      <mesh>
-        <sphereGeometry args={[size, 16, 16]} />
-        <meshBasicMaterial color={color} transparent opacity={pulse * 0.9} />
-      </mesh>
-      {/* Soft glow */}
-      <mesh>
-        <sphereGeometry args={[size * 2, 12, 12]} />
-        <meshBasicMaterial color={color} transparent opacity={pulse * 0.15} />
-      </mesh>
-    </group>
+    <>
+      <instancedMesh ref={coresRef} args={[undefined, coreMaterial, coreCount]} frustumCulled={false}>
+        <sphereGeometry args={[1, 16, 16]} />
+      </instancedMesh>
+      <instancedMesh ref={glowsRef} args={[undefined, glowMaterial, DECORATIVE_POINTS.length]} frustumCulled={false}>
+        <sphereGeometry args={[1, 12, 12]} />
+      </instancedMesh>
+    </>
   );
 };
 
-// Smooth bezier curve connection - 3B1B signature
-const SmoothCurve = ({
-  start,
-  end,
-  color,
-  opacity,
-  time,
-  curveHeight = 0.5
-}: {
-  start: [number, number, number];
-  end: [number, number, number];
-  color: string;
-  opacity: number;
-  time: number;
-  curveHeight?: number;
-}) => {
-  const points = useMemo(() => {
-    const startVec = new THREE.Vector3(...start);
-    const endVec = new THREE.Vector3(...end);
-    const mid = startVec.clone().add(endVec).multiplyScalar(0.5);
-    mid.y += curveHeight;
-    
-    const curve = new THREE.QuadraticBezierCurve3(startVec, mid, endVec);
-    return curve.getPoints(32);
-  }, [start, end, curveHeight]);
+// Smooth bezier curve connections - 3B1B signature, one segment batch with vertex colors
+const SmoothCurves = ({ opacity }: { opacity: number }) => {
+  const { points, colors } = useMemo(() => {
+    const points: THREE.Vector3[] = [];
+    const colors: THREE.Color[] = [];
+    DECORATIVE_CURVES.forEach(({ start, end, color }, i) => {
+      const startVec = new THREE.Vector3(...start);
+      const endVec = new THREE.Vector3(...end);
+      const mid = startVec.clone().add(endVec).multiplyScalar(0.5);
+      mid.y += 0.3 + i * 0.1;
 
-  // Gentle pulse
-  const pulse = 0.7 + Math.sin(time * 0.4) * 0.3;
+      const curvePoints = new THREE.QuadraticBezierCurve3(startVec, mid, endVec).getPoints(32);
+      curvePoints.slice(1).forEach((point, j) => {
+        points.push(curvePoints[j], point);
+        colors.push(new THREE.Color(color), new THREE.Color(color));
+      });
+    });
+    return { points, colors };
+  }, []);
 
   return (
-    <Line
+    <FadeLine
+      segments
       points={points}
-      color={color}
+      vertexColors={colors}
       lineWidth={1.5}
-      transparent
-      opacity={opacity * pulse}
+      opacity={opacity}
+      // Gentle pulse
+      pulse={(time) => 0.7 + Math.sin(time * 0.4) * 0.3}
     />
   );
 };
 
-// Orbiting accent - very subtle
-const OrbitingAccent = ({
-  radius,
-  color,
-  time,
-  speed,
-  yOffset
-}: {
-  radius: number;
-  color: string;
-  time: number;
-  speed: number;
-  yOffset: number;
-}) => {
-  const angle = time * speed;
-  const x = Math.cos(angle) * radius;
-  const z = Math.sin(angle) * radius;
-  const pulse = 0.6 + Math.sin(time * 0.8) * 0.4;
-  
-  return (
-    <mesh position={[x, yOffset, z]}>
-      <sphereGeometry args={[0.02, 8, 8]} />
-      <meshBasicMaterial color={color} transparent opacity={pulse * 0.5} />
-    </mesh>
-  );
-};
-
-export const FractalScene = ({ isPaused, resetTrigger, onDepthChange }: FractalSceneProps) => {
+export const FractalScene = ({
+  universe = DEFAULT_UNIVERSE,
+  layoutMode = 'force',
+  focusLayout = false,
+  legendFilter = EMPTY_LEGEND_FILTER,
+  onToggleLegendEntry,
+  pathHighlight = null,
+  impact = null,
+  onPickWidget,
+  liveMetrics = {},
+  editor,
+  selectedConnection = null,
+  onSelectConnection,
+  isPaused,
+  resetTrigger,
+  initialPath = [],
+  initialSelection = null,
+  initialCamera = null,
+  onNavigationChange,
+  onCameraChange,
+}: FractalSceneProps) => {
   const { camera } = useThree();
   const controlsRef = useRef<any>(null);
-  const [universes, setUniverses] = useState<UniverseLevel[]>([
-    { id: 0, depth: 0, position: [0, 0, 0], targetScale: 1, currentScale: 0, opacity: 1 }
-  ]);
-  const [activeDepth, setActiveDepth] = useState(0);
+  const [universes, setUniverses] = useState<UniverseLevel[]>(() => {
+    const layout = { mode: layoutMode, focus: focusLayout };
+    const levels = buildLevels([createRootLevel(universe)], initialPath, layout);
+    levels[levels.length - 1] = { ...levels[levels.length - 1], selectedWidget: initialSelection };
+    return repositionLevels(levels, layout);
+  });
+  const [activeDepth, setActiveDepth] = useState(() => universes.length - 1);
   const [isZooming, setIsZooming] = useState(false);
   const [zoomTarget, setZoomTarget] = useState<THREE.Vector3>(new THREE.Vector3(0, 0, 5));
-  const [time, setTime] = useState(0);
   const lastResetRef = useRef(resetTrigger);
+  const restoredRef = useRef(false);
+  // Animation state lives outside React: the clock and the fade of every mounted level
+  const clock = useRef<FrameClock>({ time: 0 }).current;
+  const fadesRef = useRef<Record<number, LevelFade>>({ 0: { scale: 0, opacity: 1 } });
+  const fadeFor = (id: number) => (fadesRef.current[id] ??= { scale: 0, opacity: 0 });
+  // Point the controls orbit instead of the active level's center, set by flying to a widget
+  const lookAtRef = useRef<THREE.Vector3 | null>(null);
 
-  // Decorative points in 3B1B style
-  const decorativePoints = useMemo(() => [
-    { position: [-3, 0.5, -2] as [number, number, number], color: COLORS.blue, size: 0.03 },
-    { position: [3.5, 0.2, -1.5] as [number, number, number], color: COLORS.teal, size: 0.025 },
-    { position: [-2, -0.3, 2] as [number, number, number], color: COLORS.purple, size: 0.02 },
-    { position: [2.5, 0.8, 2.5] as [number, number, number], color: COLORS.gold, size: 0.025 },
-    { position: [0, 1.2, -3] as [number, number, number], color: COLORS.lightBlue, size: 0.03 },
-    { position: [-3.5, -0.5, 0] as [number, number, number], color: COLORS.pink, size: 0.02 },
-  ], []);
-
-  // Subtle connecting curves
-  const decorativeCurves = useMemo(() => [
-    { start: [-3, 0.5, -2] as [number, number, number], end: [0, 1.2, -3] as [number, number, number], color: COLORS.blue },
-    { start: [3.5, 0.2, -1.5] as [number, number, number], end: [2.5, 0.8, 2.5] as [number, number, number], color: COLORS.teal },
-    { start: [-2, -0.3, 2] as [number, number, number], end: [-3.5, -0.5, 0] as [number, number, number], color: COLORS.purple },
-  ], []);
+  // Latest stack for stable navigation callbacks
+  const universesRef = useRef(universes);
+  universesRef.current = universes;
+  const layoutRef = useRef<LevelLayout>({ mode: layoutMode, focus: focusLayout });
 
   // Handle reset
   useEffect(() => {
     if (resetTrigger !== lastResetRef.current) {
       lastResetRef.current = resetTrigger;
-      setUniverses([{ id: 0, depth: 0, position: [0, 0, 0], targetScale: 1, currentScale: 0, opacity: 1 }]);
+      setUniverses([createRootLevel(universe)]);
+      fadesRef.current = { 0: { scale: 0, opacity: 1 } };
       setActiveDepth(0);
       setIsZooming(false);
       setZoomTarget(new THREE.Vector3(0, 0, 1.2));
+      lookAtRef.current = null;
       camera.position.set(0, 0, 1.2);
     }
-  }, [resetTrigger, camera]);
+  }, [resetTrigger, camera, universe]);
 
-  const handleDiveIn = useCallback((position: [number, number, number], newDepth: number) => {
-    if (isZooming) return;
+  // Restore the view a deep link landed on
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+
+    const level = universesRef.current[activeDepth];
+    const position = initialCamera ? new THREE.Vector3(...initialCamera) : cameraPositionFor(level);
+    camera.position.copy(position);
+    setZoomTarget(position.clone());
+    controlsRef.current?.target.set(...level.position);
+  }, [camera, activeDepth, initialCamera]);
+
+  const updateHistory = useCallback((stack: UniverseLevel[]) => {
+    universesRef.current = stack;
+    setUniverses(stack);
+  }, []);
+
+  const navigateTo = useCallback((depth: number) => {
+    const level = universesRef.current[depth];
+    if (!level) return;
 
     setIsZooming(true);
-    
-    const newUniverse: UniverseLevel = {
-      id: Date.now(),
-      depth: newDepth,
-      position,
-      targetScale: 0.3,
-      currentScale: 0,
-      opacity: 0,
-    };
-
-    setUniverses(prev => {
-      const filtered = prev.filter(u => u.depth >= newDepth - 2);
-      return [...filtered, newUniverse];
-    });
-    
-    const targetPos = new THREE.Vector3(...position);
-    const cameraTargetDistance = 0.8; // Ближе к узлам
-    // Фронтальный вид - камера прямо перед целью по оси Z
-    const newCameraPos = new THREE.Vector3(targetPos.x, targetPos.y, targetPos.z + cameraTargetDistance);
-    
-    setZoomTarget(newCameraPos);
-    setActiveDepth(newDepth);
-  }, [isZooming, camera]);
+    setActiveDepth(depth);
+    setZoomTarget(cameraPositionFor(level));
+    lookAtRef.current = null;
+  }, []);
+
+  // A layout change moves child universes to where their widgets now are
+  useEffect(() => {
+    const current = layoutRef.current;
+    if (current.mode === layoutMode && current.focus === focusLayout) return;
+    layoutRef.current = { mode: layoutMode, focus: focusLayout };
+    updateHistory(repositionLevels(universesRef.current, layoutRef.current));
+    navigateTo(activeDepth);
+  }, [layoutMode, focusLayout, activeDepth, updateHistory, navigateTo]);
+
+  // The document changed (e.g. from the stream): levels are rebuilt, branches that vanished are closed
+  const documentRef = useRef(universe);
+  useEffect(() => {
+    if (documentRef.current === universe) return;
+    documentRef.current = universe;
+    const stack = refreshLevels(universesRef.current, universe, layoutRef.current);
+    updateHistory(stack);
+    if (activeDepth >= stack.length) navigateTo(stack.length - 1);
+  }, [universe, activeDepth, updateHistory, navigateTo]);
+
+  const handleDiveIn = useCallback((widgetId: string, newDepth: number) => {
+    if (isZooming) return;
+
+    const parent = universesRef.current[newDepth - 1];
+    const newUniverse = parent ? createChildLevel(parent, widgetId, layoutRef.current) : null;
+    if (!newUniverse) return;
+
+    // A new branch drops the forward history
+    updateHistory([...universesRef.current.slice(0, newDepth), newUniverse]);
+    navigateTo(newDepth);
+  }, [isZooming, navigateTo, updateHistory]);
 
-  useFrame(({ clock }) => {
+  // Returns the level it navigated to
+  const handleNavigateToPath = useCallback((path: string[], selectedWidget?: string | null) => {
+    const history = universesRef.current;
+    let stack = history;
+    let depth = history.findIndex(u => isSamePath(u.path, path));
+    if (depth === -1) {
+      stack = buildLevels(history, path, layoutRef.current);
+      depth = stack.length - 1;
+    }
+    if (selectedWidget !== undefined && stack[depth].selectedWidget !== selectedWidget) {
+      stack = stack.map((u, i) => (i === depth ? { ...u, selectedWidget } : u));
+      if (layoutRef.current.focus) stack = repositionLevels(stack, layoutRef.current);
+    }
+
+    if (stack !== history) updateHistory(stack);
+    navigateTo(depth);
+    return stack[depth];
+  }, [navigateTo, updateHistory]);
+
+  const handleFlyToWidget = useCallback((path: string[], widgetId: string) => {
+    const level = handleNavigateToPath(path, widgetId);
+    // A path that no longer resolves stops at the deepest level that does
+    if (!level.universe.widgets.some(w => w.id === widgetId)) return;
+
+    const widgetPosition = widgetWorldPosition(level, widgetId, layoutRef.current);
+    lookAtRef.current = widgetPosition;
+    setZoomTarget(widgetPosition.clone().add(new THREE.Vector3(0, 0, WIDGET_VIEW_DISTANCE * level.targetScale)));
+  }, [handleNavigateToPath]);
+
+  const handleSelectWidget = useCallback((levelId: number, widgetId: string | null) => {
+    const stack = universesRef.current.map(u => (u.id === levelId ? { ...u, selectedWidget: widgetId } : u));
+    // The focus layout moves widgets, and their child levels follow
+    updateHistory(layoutRef.current.focus ? repositionLevels(stack, layoutRef.current) : stack);
+  }, [updateHistory]);
+
+  const handleGoBack = useCallback(() => {
+    if (activeDepth > 0) navigateTo(activeDepth - 1);
+  }, [activeDepth, navigateTo]);
+
+  const handleGoForward = useCallback(() => {
+    if (activeDepth < universesRef.current.length - 1) navigateTo(activeDepth + 1);
+  }, [activeDepth, navigateTo]);
+
+  const handleJumpTo = useCallback((depth: number) => {
+    if (depth !== activeDepth) navigateTo(depth);
+  }, [activeDepth, navigateTo]);
+
+  useFrame((_, delta) => {
     if (!isPaused) {
-      setTime(clock.elapsedTime);
+      clock.time += delta;
     }
     
     if (isZooming) {
@@ -269,100 +545,84 @@ export const FractalScene = ({ isPaused, resetTrigger, onDepthChange }: FractalS
       }
     }
 
-    setUniverses(prev => prev.map(u => {
-      const isCurrentLevel = u.depth === activeDepth;
-      const isPreviousLevel = u.depth === activeDepth - 1;
-      
-      let targetOpacity = 0;
-      if (isCurrentLevel) targetOpacity = 1;
-      else if (isPreviousLevel) targetOpacity = 0.3;
-      
-      return {
-        ...u,
-        currentScale: THREE.MathUtils.lerp(u.currentScale, u.targetScale, 0.06),
-        opacity: THREE.MathUtils.lerp(u.opacity, targetOpacity, 0.06),
-      };
-    }));
+    // Distant levels stay in the history but give up their render state
+    const fades: Record<number, LevelFade> = {};
+    universes.forEach(u => {
+      if (!isLevelRendered(u.depth, activeDepth)) return;
+
+      const fade = fadeFor(u.id);
+      fade.scale = THREE.MathUtils.lerp(fade.scale, u.targetScale, 0.06);
+      fade.opacity = THREE.MathUtils.lerp(fade.opacity, levelOpacity(u.depth, activeDepth), 0.06);
+      fades[u.id] = fade;
+    });
+    fadesRef.current = fades;
 
     if (controlsRef.current && universes.length > 0) {
-      const activeUniverse = universes.find(u => u.depth === activeDepth);
+      const activeUniverse = universes[activeDepth];
       if (activeUniverse) {
-        const target = new THREE.Vector3(...activeUniverse.position);
+        const target = lookAtRef.current ?? new THREE.Vector3(...activeUniverse.position);
         controlsRef.current.target.lerp(target, 0.06);
       }
     }
   });
 
-  const handleGoBack = useCallback(() => {
-    if (activeDepth > 0 && !isZooming) {
-      setIsZooming(true);
-      const newDepth = activeDepth - 1;
-      setActiveDepth(newDepth);
-      
-      const parentUniverse = universes.find(u => u.depth === newDepth);
-      if (parentUniverse) {
-        const targetPos = new THREE.Vector3(...parentUniverse.position);
-        const cameraDistance = 1.2;
-        setZoomTarget(targetPos.clone().add(new THREE.Vector3(0, 0, cameraDistance)));
-      }
-    }
-  }, [activeDepth, isZooming, universes]);
+  // Tells the parent whenever the navigation changes
+  const navigation = useMemo<UniverseNavigation>(() => ({
+    depth: activeDepth,
+    levels: universes.map(u => ({ path: u.path, title: u.title, universe: u.universe })),
+    selectedWidget: universes[activeDepth]?.selectedWidget ?? null,
+    canGoBack: activeDepth > 0,
+    canGoForward: activeDepth < universes.length - 1,
+    goBack: handleGoBack,
+    goForward: handleGoForward,
+    jumpTo: handleJumpTo,
+    navigateToPath: handleNavigateToPath,
+    flyToWidget: handleFlyToWidget,
+  }), [activeDepth, universes, handleGoBack, handleGoForward, handleJumpTo, handleNavigateToPath, handleFlyToWidget]);
 
-  // Уведомляем родителя об изменении глубины
   useEffect(() => {
-    onDepthChange?.(activeDepth, handleGoBack);
-  }, [activeDepth, handleGoBack, onDepthChange]);
+    onNavigationChange?.(navigation);
+  }, [navigation, onNavigationChange]);
 
   return (
-    <>
+    <FrameClockContext.Provider value={clock}>
       {/* 3B1B signature: subtle grid */}
-      <SubtleGrid time={time} />
+      <SubtleGrid />
 
       {/* Clean, minimal lighting */}
       <ambientLight intensity={0.15} color="#FFFFFF" />
       <pointLight position={[0, 3, 3]} intensity={0.3} color={COLORS.blue} decay={2} distance={15} />
       <pointLight position={[-3, 2, -2]} intensity={0.15} color={COLORS.purple} decay={2} distance={10} />
 
-      {/* Decorative mathematical points */}
-      {decorativePoints.map((point, i) => (
-        <MathPoint
-          key={`point-${i}`}
-          position={point.position}
-          color={point.color}
-          size={point.size}
-          time={time}
-          index={i}
-        />
-      ))}
+      {/* Decorative mathematical points and orbiting accents */}
+      <MathPoints />
 
       {/* Subtle connecting curves */}
-      {decorativeCurves.map((curve, i) => (
-        <SmoothCurve
-          key={`curve-${i}`}
-          start={curve.start}
-          end={curve.end}
-          color={curve.color}
-          opacity={0.15}
-          time={time}
-          curveHeight={0.3 + i * 0.1}
-        />
-      ))}
-
-      {/* Gentle orbiting accents */}
-      <OrbitingAccent radius={4} color={COLORS.blue} time={time} speed={0.08} yOffset={0} />
-      <OrbitingAccent radius={5} color={COLORS.teal} time={time} speed={-0.05} yOffset={0.5} />
-      <OrbitingAccent radius={3.5} color={COLORS.purple} time={time} speed={0.06} yOffset={-0.3} />
+      <SmoothCurves opacity={0.15} />
 
       {/* Render all universe levels */}
-      {universes.map((universe) => (
+      {universes.filter(level => isLevelRendered(level.depth, activeDepth)).map((level) => (
         <FractalUniverse
-          key={universe.id}
-          depth={universe.depth}
-          position={universe.position}
-          scale={universe.currentScale}
-          opacity={universe.opacity}
+          key={level.id}
+          universe={level.universe}
+          layoutMode={layoutMode}
+          focusLayout={focusLayout}
+          legendFilter={legendFilter}
+          onToggleLegendEntry={onToggleLegendEntry}
+          pathHighlight={level.depth === activeDepth ? pathHighlight : null}
+          impact={level.depth === activeDepth ? impact : null}
+          onPickWidget={level.depth === activeDepth ? onPickWidget : undefined}
+          liveMetrics={liveMetrics[level.path.join('/')]}
+          editor={level.depth === activeDepth ? editor : undefined}
+          selectedConnection={level.depth === activeDepth ? selectedConnection : null}
+          onSelectConnection={level.depth === activeDepth ? onSelectConnection : undefined}
+          depth={level.depth}
+          position={level.position}
+          fade={fadeFor(level.id)}
           onDiveIn={handleDiveIn}
-          isActive={universe.opacity > 0.1}
+          isActive={levelOpacity(level.depth, activeDepth) > 0.1}
+          selectedWidget={level.selectedWidget}
+          onSelectWidget={(id) => handleSelectWidget(level.id, id)}
         />
       ))}
 
@@ -371,6 +631,7 @@ export const FractalScene = ({ isPaused, resetTrigger, onDepthChange }: FractalS
       {activeDepth === 0 && !isZooming && (
         <Text
           position={[0, -1.2, 0]}
+          font={FONTS.body}
           fontSize={0.04}
           color={COLORS.grey}
           anchorX="center"
@@ -385,13 +646,15 @@ export const FractalScene = ({ isPaused, resetTrigger, onDepthChange }: FractalS
         ref={controlsRef}
         enablePan={false}
         enableZoom={true}
+        enableRotate={!editor}
         minDistance={0.5}
         maxDistance={15}
-        autoRotate={!isPaused && !isZooming}
+        autoRotate={!isPaused && !isZooming && !editor}
         autoRotateSpeed={0.15}
         enableDamping
         dampingFactor={0.03}
+        onEnd={() => onCameraChange?.(camera.position.toArray() as [number, number, number])}
       />
-    </>
+    </FrameClockContext.Provider>
   );
 };
@@ -1,270 +1,129 @@
-import { useRef, useState, useMemo, useCallback } from 'react';
+import { useRef, useState, useMemo, useCallback, useEffect, useLayoutEffect, type MutableRefObject } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Text, RoundedBox, Billboard, Sphere, Line } from '@react-three/drei';
+import { RoundedBox, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
+import type {
+  Connection,
+  ConnectionStyle,
+  ConnectionType,
+  HealthStatus,
+  ImpactAnalysis,
+  DataSource,
+  LayoutPosition,
+  LegendFilter,
+  Metrics,
+  MiniWidget as MiniWidgetData,
+  PathHighlight,
+  PlacedWidget,
+  Priority,
+  PriorityStyle,
+  UniverseDocument,
+  WeightScale,
+} from './types';
+import { DEFAULT_UNIVERSE, resolveChildUniverse } from './universe';
+import { FadeLine, FadeMaterial, FadeText } from './Fade';
+import { FONTS } from './fonts';
+import { LevelFadeContext, useFrameClock, useLevelFade, type LevelFade } from './frameClock';
+import { createInstanceOpacity, createInstancedFadeMaterial } from './instancing';
+import { WidgetIcon } from './WidgetIcon';
+import { EMPTY_LEGEND_FILTER, applyLegendFilter, type LegendEntry } from './legendFilter';
+import { impactColor } from './impact';
+import { computeHealth, healthColor, healthStyleOf } from './health';
+import { useMetrics, useUniverseMetrics } from './dataSource';
+import { useTransitions } from './transitions';
+import { DEFAULT_WEIGHT_SCALE, UNWEIGHTED, connectionWeight, legendWeights, type ConnectionWeight } from './weights';
+import {
+  LAYOUT_FRAME_PRIORITY,
+  WIDGET_BASE_SIZE,
+  connectionKey,
+  hopDistances,
+  layoutUniverse,
+  placeWidgets,
+  useAnimatedLayout,
+  type LayoutMode,
+  type WidgetPositions,
+} from './layout';
 
 interface FractalUniverseProps {
+  universe?: UniverseDocument;
+  layoutMode?: LayoutMode;
+  // Rearrange around the selected widget as a radial ego network
+  focusLayout?: boolean;
+  // Connection types and priority tiers hidden through the legends
+  legendFilter?: LegendFilter;
+  onToggleLegendEntry?: (entry: LegendEntry) => void;
+  pathHighlight?: PathHighlight | null;
+  impact?: ImpactAnalysis | null;
+  // Set while path or impact mode is on: clicks pick widgets for the mode instead of selecting
+  onPickWidget?: (widgetId: string) => void;
+  // Streamed values for this level; they win over polled ones
+  liveMetrics?: Record<string, Metrics>;
+  // Set on the active level while edit mode is on
+  editor?: UniverseEditor;
+  // Active level only: connections can be clicked to inspect them
+  selectedConnection?: string | null;
+  onSelectConnection?: (connection: Connection | null) => void;
   depth: number;
   position: [number, number, number];
-  scale: number;
-  opacity: number;
-  onDiveIn: (position: [number, number, number], depth: number) => void;
+  // Mutated by the scene every frame while the level fades in and out
+  fade: LevelFade;
+  onDiveIn: (widgetId: string, depth: number) => void;
   isActive: boolean;
+  selectedWidget: string | null;
+  onSelectWidget: (id: string | null) => void;
 }
 
-// Priority scales from documentation
-type Priority = 'critical' | 'high' | 'medium' | 'low';
-const PRIORITY_SCALES: Record<Priority, number> = {
-  critical: 1.5,
-  high: 1.35,
-  medium: 1.2,
-  low: 1.0,
-};
-
-// Connection types from documentation
-type ConnectionType = 'dataFlow' | 'dependency' | 'contextLink' | 'logicChain';
-
-interface Widget {
-  id: string;
-  x: number;
-  y: number;
-  title: string;
-  subtitle?: string;
-  icon: string;
-  priority: Priority;
-  infoLoad: number; // 0-1
-  color: string;
-  miniWidgets?: { icon: string; label: string }[];
-  connects: string[];
+// Edit mode: widgets are dragged around the plane, or linked by dragging from their connector
+export interface UniverseEditor {
+  connectionType: ConnectionType;
+  onMoveWidget: (widgetId: string, position: LayoutPosition) => void;
+  onConnectWidgets: (from: string, to: string) => void;
 }
 
-interface Connection {
-  from: string;
-  to: string;
-  type: ConnectionType;
-}
+type DragMode = 'move' | 'connect';
 
-// Widget ecosystem
-const WIDGETS: Widget[] = [
-  // Core widgets
-  {
-    id: 'lmm-core',
-    x: 0,
-    y: 0,
-    title: 'LMM Core',
-    subtitle: 'Neural Engine',
-    icon: '🧠',
-    priority: 'critical',
-    infoLoad: 0.92,
-    color: '#58C4DD',
-    miniWidgets: [
-      { icon: '⚡', label: 'GPU' },
-      { icon: '🔥', label: 'TPU' },
-      { icon: '💾', label: 'RAM' },
-    ],
-    connects: ['memory', 'processing', 'analytics', 'calendar'],
-  },
-  {
-    id: 'memory',
-    x: -2.5,
-    y: 1.5,
-    title: 'Memory',
-    subtitle: 'Long-term Storage',
-    icon: '💾',
-    priority: 'high',
-    infoLoad: 0.78,
-    color: '#9A72AC',
-    miniWidgets: [
-      { icon: '📚', label: 'Docs' },
-      { icon: '🖼️', label: 'Media' },
-    ],
-    connects: ['notes', 'photos'],
-  },
-  {
-    id: 'processing',
-    x: 2.5,
-    y: 1.2,
-    title: 'Processing',
-    subtitle: 'Task Queue',
-    icon: '⚙️',
-    priority: 'high',
-    infoLoad: 0.85,
-    color: '#F39C12',
-    miniWidgets: [
-      { icon: '🔄', label: 'Sync' },
-      { icon: '📊', label: 'Stats' },
-    ],
-    connects: ['tasks', 'reminders'],
-  },
-  {
-    id: 'analytics',
-    x: 0,
-    y: 2.2,
-    title: 'Analytics',
-    subtitle: 'Insights',
-    icon: '📊',
-    priority: 'high',
-    infoLoad: 0.65,
-    color: '#5CD0B3',
-    miniWidgets: [
-      { icon: '📈', label: 'Charts' },
-      { icon: '🎯', label: 'Goals' },
-    ],
-    connects: ['fitness', 'weather'],
-  },
-  // System widgets
-  {
-    id: 'calendar',
-    x: -3.5,
-    y: -0.5,
-    title: 'Calendar',
-    icon: '📅',
-    priority: 'medium',
-    infoLoad: 0.55,
-    color: '#FC6255',
-    connects: ['reminders', 'meetings'],
-  },
-  {
-    id: 'tasks',
-    x: 3.2,
-    y: -0.3,
-    title: 'Tasks',
-    icon: '✅',
-    priority: 'medium',
-    infoLoad: 0.72,
-    color: '#83C167',
-    connects: ['notes'],
-  },
-  {
-    id: 'notes',
-    x: -2,
-    y: -1.8,
-    title: 'Notes',
-    icon: '📝',
-    priority: 'medium',
-    infoLoad: 0.48,
-    color: '#F9F871',
-    connects: [],
-  },
-  {
-    id: 'reminders',
-    x: 1.5,
-    y: -1.5,
-    title: 'Reminders',
-    icon: '🔔',
-    priority: 'low',
-    infoLoad: 0.35,
-    color: '#E8B923',
-    connects: [],
-  },
-  {
-    id: 'photos',
-    x: -4,
-    y: 1,
-    title: 'Photos',
-    icon: '📷',
-    priority: 'low',
-    infoLoad: 0.42,
-    color: '#D147BD',
-    connects: [],
-  },
-  {
-    id: 'fitness',
-    x: 2,
-    y: 2.5,
-    title: 'Fitness',
-    icon: '💪',
-    priority: 'low',
-    infoLoad: 0.28,
-    color: '#83C167',
-    connects: [],
-  },
-  {
-    id: 'weather',
-    x: -1.5,
-    y: 2.8,
-    title: 'Weather',
-    icon: '🌤️',
-    priority: 'low',
-    infoLoad: 0.15,
-    color: '#9CDCEB',
-    connects: [],
-  },
-  {
-    id: 'meetings',
-    x: -4.5,
-    y: -1.5,
-    title: 'Meetings',
-    icon: '👥',
-    priority: 'medium',
-    infoLoad: 0.58,
-    color: '#58C4DD',
-    connects: [],
-  },
-];
-
-// Connections with 4 types
-const CONNECTIONS: Connection[] = [
-  // Data Flow - active data transfer
-  { from: 'lmm-core', to: 'memory', type: 'dataFlow' },
-  { from: 'lmm-core', to: 'processing', type: 'dataFlow' },
-  { from: 'processing', to: 'tasks', type: 'dataFlow' },
-  
-  // Dependency - structural dependency
-  { from: 'lmm-core', to: 'analytics', type: 'dependency' },
-  { from: 'memory', to: 'notes', type: 'dependency' },
-  { from: 'memory', to: 'photos', type: 'dependency' },
-  
-  // Context Link - semantic connection
-  { from: 'lmm-core', to: 'calendar', type: 'contextLink' },
-  { from: 'analytics', to: 'fitness', type: 'contextLink' },
-  { from: 'analytics', to: 'weather', type: 'contextLink' },
-  
-  // Logic Chain - AI reasoning
-  { from: 'calendar', to: 'reminders', type: 'logicChain' },
-  { from: 'calendar', to: 'meetings', type: 'logicChain' },
-  { from: 'processing', to: 'reminders', type: 'logicChain' },
-  { from: 'tasks', to: 'notes', type: 'logicChain' },
-];
-
-// Connection styles from documentation
-const CONNECTION_STYLES: Record<ConnectionType, { color: string; dash?: boolean; particles?: boolean; arrows?: boolean }> = {
-  dataFlow: { color: '#58C4DD', particles: true },
-  dependency: { color: '#9A72AC', dash: true },
-  contextLink: { color: '#E8B923' },
-  logicChain: { color: '#FC6255', arrows: true },
-};
+// Resting tilt of the universe plane around the X axis
+export const UNIVERSE_TILT = -0.3;
 
 // Mini Widget Component
 const MiniWidget = ({
   icon,
   label,
+  color,
+  source,
   position,
-  opacity,
   scale = 1,
 }: {
   icon: string;
   label: string;
+  color: string;
+  source?: DataSource;
   position: [number, number, number];
-  opacity: number;
   scale?: number;
-}) => (
-  <Billboard follow position={position}>
-    <group scale={scale}>
-      <RoundedBox args={[0.35, 0.35, 0.05]} radius={0.08} smoothness={4}>
-        <meshBasicMaterial color="#1C1C1E" transparent opacity={opacity * 0.9} />
-      </RoundedBox>
-      <Text position={[0, 0.02, 0.03]} fontSize={0.12} anchorX="center" anchorY="middle" fillOpacity={opacity}>
-        {icon}
-      </Text>
-      <Text position={[0, -0.12, 0.03]} fontSize={0.05} color="#888888" anchorX="center" fillOpacity={opacity * 0.8}>
-        {label}
-      </Text>
-    </group>
-  </Billboard>
-);
+}) => {
+  const metrics = useMetrics(source);
+
+  return (
+    <Billboard follow position={position}>
+      <group scale={scale}>
+        <RoundedBox args={[0.35, 0.35, 0.05]} radius={0.08} smoothness={4}>
+          <FadeMaterial color="#1C1C1E" opacity={0.9} />
+        </RoundedBox>
+        {metrics?.infoLoad !== undefined && (
+          <FadeText position={[0, 0.13, 0.03]} fontSize={0.045} color={color} anchorX="center" anchorY="middle">
+            {`${Math.round(metrics.infoLoad * 100)}%`}
+          </FadeText>
+        )}
+        <WidgetIcon icon={icon} color={color} size={0.12} position={[0, 0.02, 0.03]} />
+        <FadeText position={[0, -0.12, 0.03]} fontSize={0.05} color="#888888" anchorX="center" fillOpacity={0.8}>
+          {label}
+        </FadeText>
+      </group>
+    </Billboard>
+  );
+};
 
-// Info Load Bar Component
+// Info Load Bar Component; the fill eases towards each new value as live metrics arrive
 const InfoLoadBar = ({
   load,
   width,
@@ -277,56 +136,81 @@ const InfoLoadBar = ({
   position: [number, number, number];
   opacity: number;
   color: string;
-}) => (
-  <group position={position}>
-    {/* Background */}
-    <RoundedBox args={[width * 0.8, 0.06, 0.01]} radius={0.02} smoothness={2}>
-      <meshBasicMaterial color="#2C2C2E" transparent opacity={opacity * 0.8} />
-    </RoundedBox>
-    {/* Fill */}
-    <RoundedBox
-      args={[width * 0.8 * load, 0.06, 0.015]}
-      radius={0.02}
-      smoothness={2}
-      position={[-(width * 0.8 * (1 - load)) / 2, 0, 0.005]}
-    >
-      <meshBasicMaterial color={color} transparent opacity={opacity * 0.9} />
-    </RoundedBox>
-  </group>
-);
+}) => {
+  const fillRef = useRef<THREE.Mesh>(null);
+  const shownLoad = useRef(0);
+  const barWidth = width * 0.8;
+
+  useFrame(() => {
+    const fill = fillRef.current;
+    if (!fill) return;
+    shownLoad.current = THREE.MathUtils.lerp(shownLoad.current, load, 0.06);
+    fill.scale.x = Math.max(shownLoad.current, 0.001);
+    fill.position.x = -(barWidth * (1 - shownLoad.current)) / 2;
+  });
+
+  return (
+    <group position={position}>
+      {/* Background */}
+      <RoundedBox args={[barWidth, 0.06, 0.01]} radius={0.02} smoothness={2}>
+        <FadeMaterial color="#2C2C2E" opacity={opacity * 0.8} />
+      </RoundedBox>
+      {/* Fill, scaled from the left edge; starts empty and grows in */}
+      <RoundedBox
+        ref={fillRef}
+        args={[barWidth, 0.06, 0.015]}
+        radius={0.02}
+        smoothness={2}
+        position={[-barWidth / 2, 0, 0.005]}
+        scale={[0.001, 1, 1]}
+      >
+        <FadeMaterial color={color} opacity={opacity * 0.9} />
+      </RoundedBox>
+    </group>
+  );
+};
 
 // Orbit Mini Widgets (shown on focus)
 const OrbitMiniWidgets = ({
   miniWidgets,
+  color,
   centerPosition,
-  opacity,
-  time,
 }: {
-  miniWidgets: { icon: string; label: string }[];
+  miniWidgets: MiniWidgetData[];
+  // Mini widgets draw their icons in the color of the parent widget
+  color: string;
   centerPosition: [number, number, number];
-  opacity: number;
-  time: number;
 }) => {
   const radius = 0.9;
+  const orbitRef = useRef<THREE.Group>(null);
+  const clock = useFrameClock();
+
+  // The ring turns as a whole, billboards keep every mini widget facing the camera
+  useFrame(() => {
+    if (orbitRef.current) orbitRef.current.rotation.z = clock.time * 0.3;
+  });
   
   return (
     <group position={centerPosition}>
-      {miniWidgets.map((mini, i) => {
-        const angle = (i / miniWidgets.length) * Math.PI * 2 + time * 0.3;
-        const x = Math.cos(angle) * radius;
-        const y = Math.sin(angle) * radius;
-        
-        return (
-          <MiniWidget
-            key={i}
-            icon={mini.icon}
-            label={mini.label}
-            position={[x, y, 0.1]}
-            opacity={opacity}
-            scale={1.1}
-          />
-        );
-      })}
+      <group ref={orbitRef}>
+        {miniWidgets.map((mini, i) => {
+          const angle = (i / miniWidgets.length) * Math.PI * 2;
+          const x = Math.cos(angle) * radius;
+          const y = Math.sin(angle) * radius;
+          
+          return (
+            <MiniWidget
+              key={i}
+              icon={mini.icon}
+              label={mini.label}
+              color={color}
+              source={mini.source}
+              position={[x, y, 0.1]}
+              scale={1.1}
+            />
+          );
+        })}
+      </group>
     </group>
   );
 };
@@ -334,545 +218,1154 @@ const OrbitMiniWidgets = ({
 // iOS 26 Widget Component
 const IOS26Widget = ({
   widget,
-  opacity,
-  time,
+  priorityStyle,
   isHovered,
   isSelected,
   isFocusRelated,
   isBlurred,
+  alertColor,
+  health,
+  load,
+  canDive,
+  transition,
+  live,
   onHover,
   onSelect,
+  onDive,
+  onDragStart,
 }: {
-  widget: Widget;
-  opacity: number;
-  time: number;
+  widget: PlacedWidget;
+  priorityStyle: PriorityStyle;
   isHovered: boolean;
   isSelected: boolean;
   isFocusRelated: boolean;
   isBlurred: boolean;
+  // Glow color forced by impact mode
+  alertColor?: string;
+  health: HealthStatus;
+  load: number; // live infoLoad when the widget has a data source
+  canDive: boolean;
+  // Grows the widget in after it appears and shrinks it away after it is removed
+  transition: LevelFade;
+  // Where the layout tween has the widget this frame
+  live: MutableRefObject<WidgetPositions>;
   onHover: (id: string | null) => void;
   onSelect: (id: string) => void;
+  onDive: (id: string) => void;
+  // Edit mode only: the card moves the widget, the connector starts a new connection
+  onDragStart?: (id: string, mode: DragMode, point: THREE.Vector3) => void;
 }) => {
-  const priorityScale = PRIORITY_SCALES[widget.priority];
-  const baseSize = 0.8;
-  const size = baseSize * priorityScale;
+  const priorityScale = priorityStyle.scale;
+  const size = WIDGET_BASE_SIZE * priorityScale;
   const cornerRadius = size * 0.2;
+  const healthStyle = healthStyleOf(health);
+  // Unhealthy widgets lose their color, down to grey when nothing is known
+  const color = useMemo(() => healthColor(widget.color, health), [widget.color, health]);
+  const groupRef = useRef<THREE.Group>(null);
+  const clock = useFrameClock();
   
   // Animation states
   const hoverScale = isHovered ? 1.3 : isSelected ? 1.15 : isFocusRelated ? 1.05 : 1;
   const blurOpacity = isBlurred ? 0.25 : 1;
-  const pulse = isHovered || isSelected ? 1 + Math.sin(time * 4) * 0.05 : 1;
+  const isPulsing = isHovered || isSelected;
   const lift = isHovered ? 0.2 : isSelected ? 0.1 : 0;
   
   // Glow intensity
-  const glowIntensity = isHovered ? 0.6 : isSelected ? 0.4 : isFocusRelated ? 0.2 : 0;
+  const glowIntensity = isHovered ? 0.6 : alertColor ? 0.5 : isSelected ? 0.4 : isFocusRelated ? 0.2 : 0;
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    const pulse = isPulsing ? 1 + Math.sin(clock.time * 4) * 0.05 : 1;
+    group.scale.setScalar(hoverScale * pulse * transition.scale);
+    // Removed widgets are no longer in the layout and stay where they were
+    const at = live.current[widget.id] ?? widget;
+    group.position.set(at.x, at.y + lift, 0);
+  });
 
   return (
-    <group
-      position={[widget.x, widget.y + lift, 0]}
-      scale={hoverScale * pulse}
-    >
-      {/* Glow effect */}
-      {glowIntensity > 0 && (
+    <LevelFadeContext.Provider value={transition}>
+      <group
+        ref={groupRef}
+        position={[widget.x, widget.y + lift, 0]}
+        scale={0}
+      >
+        {/* Glow effect */}
+        {glowIntensity > 0 && (
+          <RoundedBox
+            args={[size + 0.2, size + 0.2, 0.02]}
+            radius={cornerRadius + 0.05}
+            smoothness={4}
+            position={[0, 0, -0.05]}
+          >
+            <FadeMaterial
+              color={alertColor ?? color}
+              opacity={glowIntensity * blurOpacity}
+              pulse={(time) => 1 + Math.sin(time * 3) * 0.3}
+            />
+          </RoundedBox>
+        )}
+      
+        {/* Status ring */}
         <RoundedBox
-          args={[size + 0.2, size + 0.2, 0.02]}
-          radius={cornerRadius + 0.05}
+          args={[size + 0.06, size + 0.06, 0.03]}
+          radius={cornerRadius + 0.03}
           smoothness={4}
-          position={[0, 0, -0.05]}
+          position={[0, 0, -0.03]}
         >
-          <meshBasicMaterial
-            color={widget.color}
-            transparent
-            opacity={opacity * glowIntensity * blurOpacity * (1 + Math.sin(time * 3) * 0.3)}
-          />
+          <FadeMaterial color={healthStyle.color} opacity={(health === 'ok' ? 0.25 : 0.9) * blurOpacity} />
+        </RoundedBox>
+
+        {/* Warning badge */}
+        {healthStyle.badge && (
+          <group position={[size * 0.42, size * 0.42, 0.08]}>
+            <mesh>
+              <circleGeometry args={[size * 0.09, 24]} />
+              <FadeMaterial color={healthStyle.color} opacity={blurOpacity} />
+            </mesh>
+            <FadeText
+              position={[0, 0, 0.01]}
+              font={FONTS.heading}
+              fontSize={size * 0.13}
+              color="#1C1C1E"
+              anchorX="center"
+              anchorY="middle"
+              fillOpacity={blurOpacity}
+            >
+              {healthStyle.badge}
+            </FadeText>
+          </group>
+        )}
+
+        {/* Shadow */}
+        <RoundedBox
+          args={[size, size, 0.02]}
+          radius={cornerRadius}
+          smoothness={4}
+          position={[0.05, -0.05, -0.1]}
+        >
+          <FadeMaterial color="#000000" opacity={0.2 * blurOpacity} />
         </RoundedBox>
-      )}
-      
-      {/* Shadow */}
-      <RoundedBox
-        args={[size, size, 0.02]}
-        radius={cornerRadius}
-        smoothness={4}
-        position={[0.05, -0.05, -0.1]}
-      >
-        <meshBasicMaterial color="#000000" transparent opacity={opacity * 0.2 * blurOpacity} />
-      </RoundedBox>
-      
-      {/* Main background - Glassmorphism */}
-      <RoundedBox
-        args={[size, size, 0.08]}
-        radius={cornerRadius}
-        smoothness={4}
-        onClick={(e) => {
-          e.stopPropagation();
-          onSelect(widget.id);
-        }}
-        onPointerOver={(e) => {
-          e.stopPropagation();
-          onHover(widget.id);
-          document.body.style.cursor = 'pointer';
-        }}
-        onPointerOut={(e) => {
-          e.stopPropagation();
-          onHover(null);
-          document.body.style.cursor = 'default';
-        }}
-      >
-        <meshBasicMaterial color="#1C1C1E" transparent opacity={opacity * 0.92 * blurOpacity} />
-      </RoundedBox>
-      
-      {/* Glass highlight */}
-      <RoundedBox
-        args={[size * 0.85, size * 0.15, 0.09]}
-        radius={cornerRadius * 0.4}
-        smoothness={3}
-        position={[0, size * 0.35, 0.01]}
-      >
-        <meshBasicMaterial color="#FFFFFF" transparent opacity={opacity * 0.12 * blurOpacity} />
-      </RoundedBox>
       
-      {/* Priority indicator (top line) */}
-      <RoundedBox
-        args={[size * 0.6, 0.04, 0.09]}
-        radius={0.01}
-        smoothness={2}
-        position={[0, size * 0.42, 0.02]}
-      >
-        <meshBasicMaterial
-          color={
-            widget.priority === 'critical' ? '#FC6255' :
-            widget.priority === 'high' ? '#F39C12' :
-            widget.priority === 'medium' ? '#58C4DD' : '#48484A'
-          }
-          transparent
-          opacity={opacity * 0.95 * blurOpacity}
-        />
-      </RoundedBox>
+        {/* Main background - Glassmorphism */}
+        <RoundedBox
+          args={[size, size, 0.08]}
+          radius={cornerRadius}
+          smoothness={4}
+          onClick={(e) => {
+            e.stopPropagation();
+            onSelect(widget.id);
+          }}
+          onDoubleClick={(e) => {
+            e.stopPropagation();
+            if (canDive) onDive(widget.id);
+          }}
+          onPointerDown={onDragStart && ((e) => {
+            e.stopPropagation();
+            onDragStart(widget.id, 'move', e.point);
+          })}
+          onPointerOver={(e) => {
+            e.stopPropagation();
+            onHover(widget.id);
+            document.body.style.cursor = onDragStart ? 'grab' : canDive ? 'zoom-in' : 'pointer';
+          }}
+          onPointerOut={(e) => {
+            e.stopPropagation();
+            onHover(null);
+            document.body.style.cursor = 'default';
+          }}
+        >
+          <FadeMaterial color="#1C1C1E" opacity={0.92 * blurOpacity} />
+        </RoundedBox>
       
-      {/* Content */}
-      <Billboard follow position={[0, 0, 0.1]}>
-        {/* Icon */}
-        <Text
-          position={[0, size * 0.12, 0]}
-          fontSize={size * 0.35}
-          anchorX="center"
-          anchorY="middle"
-          fillOpacity={opacity * blurOpacity}
+        {/* Glass highlight */}
+        <RoundedBox
+          args={[size * 0.85, size * 0.15, 0.09]}
+          radius={cornerRadius * 0.4}
+          smoothness={3}
+          position={[0, size * 0.35, 0.01]}
         >
-          {widget.icon}
-        </Text>
-        
-        {/* Title */}
-        <Text
-          position={[0, -size * 0.18, 0]}
-          fontSize={size * 0.11}
-          color="#FFFFFF"
-          anchorX="center"
-          anchorY="middle"
-          fillOpacity={opacity * 0.95 * blurOpacity}
+          <FadeMaterial color="#FFFFFF" opacity={0.12 * blurOpacity} />
+        </RoundedBox>
+      
+        {/* Priority indicator (top line) */}
+        <RoundedBox
+          args={[size * 0.6, 0.04, 0.09]}
+          radius={0.01}
+          smoothness={2}
+          position={[0, size * 0.42, 0.02]}
         >
-          {widget.title}
-        </Text>
+          <FadeMaterial color={priorityStyle.color} opacity={0.95 * blurOpacity} />
+        </RoundedBox>
+      
+        {/* Content */}
+        <Billboard follow position={[0, 0, 0.1]}>
+          {/* Icon */}
+          <WidgetIcon
+            icon={widget.icon}
+            color={color}
+            size={size * 0.35}
+            position={[0, size * 0.12, 0]}
+            opacity={blurOpacity}
+          />
         
-        {/* Subtitle */}
-        {widget.subtitle && (
-          <Text
-            position={[0, -size * 0.3, 0]}
-            fontSize={size * 0.07}
-            color="#888888"
+          {/* Title */}
+          <FadeText
+            position={[0, -size * 0.18, 0]}
+            fontSize={size * 0.11}
+            color="#FFFFFF"
             anchorX="center"
             anchorY="middle"
-            fillOpacity={opacity * 0.7 * blurOpacity}
+            fillOpacity={0.95 * blurOpacity}
           >
-            {widget.subtitle}
-          </Text>
-        )}
-      </Billboard>
-      
-      {/* Info Load Bar */}
-      <InfoLoadBar
-        load={widget.infoLoad}
-        width={size}
-        position={[0, -size * 0.42, 0.05]}
-        opacity={opacity * blurOpacity}
-        color={widget.color}
-      />
+            {widget.title}
+          </FadeText>
+        
+          {/* Subtitle */}
+          {widget.subtitle && (
+            <FadeText
+              position={[0, -size * 0.3, 0]}
+              fontSize={size * 0.07}
+              color="#888888"
+              anchorX="center"
+              anchorY="middle"
+              fillOpacity={0.7 * blurOpacity}
+            >
+              {widget.subtitle}
+            </FadeText>
+          )}
+        </Billboard>
       
-      {/* Mini widgets inside (shown on hover/select) */}
-      {(isHovered || isSelected) && widget.miniWidgets && (
-        <OrbitMiniWidgets
-          miniWidgets={widget.miniWidgets}
-          centerPosition={[0, 0, 0.15]}
-          opacity={opacity}
-          time={time}
+        {/* Info Load Bar */}
+        <InfoLoadBar
+          load={load}
+          width={size}
+          position={[0, -size * 0.42, 0.05]}
+          opacity={blurOpacity}
+          color={color}
         />
-      )}
-    </group>
+      
+        {/* Connector: drag from here to another widget to link them */}
+        {onDragStart && (
+          <mesh
+            position={[size / 2 + 0.1, 0, 0.05]}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onDragStart(widget.id, 'connect', e.point);
+            }}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              document.body.style.cursor = 'crosshair';
+            }}
+            onPointerOut={() => {
+              document.body.style.cursor = 'default';
+            }}
+          >
+            <circleGeometry args={[0.06, 16]} />
+            <FadeMaterial color="#58C4DD" opacity={0.9 * blurOpacity} />
+          </mesh>
+        )}
+
+        {/* Mini widgets inside (shown on hover/select) */}
+        {(isHovered || isSelected) && widget.miniWidgets && (
+          <OrbitMiniWidgets
+            miniWidgets={widget.miniWidgets}
+            color={color}
+            centerPosition={[0, 0, 0.15]}
+          />
+        )}
+      </group>
+    </LevelFadeContext.Provider>
   );
 };
 
+// Control point of an unrouted connection, written into `mid`
+const bowConnection = (start: THREE.Vector3, end: THREE.Vector3, isBackEdge: boolean, mid: THREE.Vector3) => {
+  mid.copy(start).lerp(end, 0.5);
+  const perpendicular = new THREE.Vector3(
+    -(end.y - start.y),
+    end.x - start.x,
+    0
+  ).normalize();
+  
+  // Back edges bow out wide so they read as running against the flow
+  const distance = start.distanceTo(end);
+  mid.add(perpendicular.multiplyScalar(distance * (isBackEdge ? 0.6 : 0.2)));
+  mid.z = isBackEdge ? 0.4 : 0.15;
+  return mid;
+};
+
+// Path of a connection between two placed widgets
+const connectionCurve = (
+  fromWidget: PlacedWidget,
+  toWidget: PlacedWidget,
+  waypoints: LayoutPosition[] | undefined,
+  isBackEdge: boolean
+): THREE.Curve<THREE.Vector3> => {
+  const start = new THREE.Vector3(fromWidget.x, fromWidget.y, 0);
+  const end = new THREE.Vector3(toWidget.x, toWidget.y, 0);
+
+  // Routed between layers through the layout's waypoints
+  if (waypoints && waypoints.length > 0) {
+    return new THREE.CatmullRomCurve3([
+      start,
+      ...waypoints.map((p) => new THREE.Vector3(p.x, p.y, 0.15)),
+      end,
+    ]);
+  }
+  
+  return new THREE.QuadraticBezierCurve3(start, bowConnection(start, end, isBackEdge, new THREE.Vector3()), end);
+};
+
+// A connection's curve with a count of the times it was bent in place to follow its widgets
+interface EdgePath {
+  curve: THREE.Curve<THREE.Vector3>;
+  revision: number;
+}
+
+// Unrouted curves follow the widgets during the layout tween; routes only exist once it has settled
+const followWidgets = (path: EdgePath, from: LayoutPosition, to: LayoutPosition, isBackEdge: boolean) => {
+  const { curve } = path;
+  if (!(curve instanceof THREE.QuadraticBezierCurve3)) return;
+  if (curve.v0.x === from.x && curve.v0.y === from.y && curve.v2.x === to.x && curve.v2.y === to.y) return;
+  curve.v0.set(from.x, from.y, 0);
+  curve.v2.set(to.x, to.y, 0);
+  bowConnection(curve.v0, curve.v2, isBackEdge, curve.v1);
+  path.revision++;
+};
+
+// Scratch objects for per-frame instance updates
+const scratchMatrix = new THREE.Matrix4();
+const scratchPoint = new THREE.Vector3();
+const scratchColor = new THREE.Color();
+
+// Background dot grid as a single instanced draw call
+const DOT_COLUMNS = 20;
+const DOT_ROWS = 15;
+
+const BackgroundDots = () => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    for (let i = 0; i < DOT_COLUMNS; i++) {
+      for (let j = 0; j < DOT_ROWS; j++) {
+        mesh.setMatrixAt(i * DOT_ROWS + j, scratchMatrix.makeTranslation(-9 + i, -6 + j * 0.9, -0.5));
+      }
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+  }, []);
+
+  return (
+    <instancedMesh ref={meshRef} args={[undefined, undefined, DOT_COLUMNS * DOT_ROWS]} frustumCulled={false}>
+      <circleGeometry args={[0.012, 6]} />
+      <FadeMaterial color="#2C2C2E" opacity={0.4} />
+    </instancedMesh>
+  );
+};
+
+interface ParticleFlow {
+  curve: THREE.Curve<THREE.Vector3>;
+  color: string;
+  dim: number;
+  reversed?: boolean; // runs from the curve's end, for routes walked against a connection
+  weight: ConnectionWeight; // how many particles, evenly spaced, and how fast
+}
+
+// Particles of every Data Flow connection in one instanced mesh, moved along their curves each frame
+const DataFlowParticles = ({ flows }: { flows: ParticleFlow[] }) => {
+  const count = flows.reduce((sum, flow) => sum + flow.weight.particles, 0);
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const material = useMemo(() => createInstancedFadeMaterial(), []);
+  const opacities = useMemo(() => createInstanceOpacity(count), [count]);
+  const clock = useFrameClock();
+  const fade = useLevelFade();
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    mesh.geometry.setAttribute('instanceOpacity', opacities);
+    let index = 0;
+    flows.forEach((flow) => {
+      for (let j = 0; j < flow.weight.particles; j++) mesh.setColorAt(index++, scratchColor.set(flow.color));
+    });
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [flows, opacities]);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    material.opacity = fade.opacity;
+    let index = 0;
+    flows.forEach(({ curve, dim, reversed, weight: { particles, speed } }) => {
+      for (let j = 0; j < particles; j++, index++) {
+        const t = (clock.time * speed + j / particles) % 1;
+        curve.getPoint(reversed ? 1 - t : t, scratchPoint);
+        scratchPoint.z += 0.05;
+        mesh.setMatrixAt(index, scratchMatrix.makeTranslation(scratchPoint.x, scratchPoint.y, scratchPoint.z));
+        opacities.setX(index, Math.sin(t * Math.PI) * dim);
+      }
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    opacities.needsUpdate = true;
+  });
+
+  if (count === 0) return null;
+
+  return (
+    <instancedMesh key={count} ref={meshRef} args={[undefined, material, count]} frustumCulled={false}>
+      <sphereGeometry args={[0.04, 8, 8]} />
+    </instancedMesh>
+  );
+};
+
+// Where along a Logic Chain connection its arrow sits, and which way it points
+const ARROW_AT = 0.7;
+
+const arrowOn = (curve: THREE.Curve<THREE.Vector3>) => {
+  const tangent = curve.getTangent(ARROW_AT);
+  return { point: curve.getPoint(ARROW_AT), angle: Math.atan2(tangent.y, tangent.x) };
+};
+
+// Radius of the invisible tube that makes a connection easy to hit
+const HIT_RADIUS = 0.07;
+
 // Connection Component with 4 types
 const ConnectionLine = ({
-  fromWidget,
-  toWidget,
-  type,
-  opacity,
-  time,
+  path,
+  style,
+  label,
+  lineWidth,
   isHighlighted,
+  isEmphasized = false,
+  waypoints,
+  isBackEdge = false,
+  clearance,
+  transition,
+  onHover,
+  onSelect,
 }: {
-  fromWidget: Widget;
-  toWidget: Widget;
-  type: ConnectionType;
-  opacity: number;
-  time: number;
+  path: EdgePath;
+  style: ConnectionStyle;
+  label?: string;
+  lineWidth: number; // from the connection's weight; highlighting doubles it
   isHighlighted: boolean;
+  // Hovered or inspected
+  isEmphasized?: boolean;
+  waypoints?: LayoutPosition[];
+  isBackEdge?: boolean;
+  // How far from each end the widgets cover the line, [from, to]
+  clearance: [number, number];
+  // New connections draw themselves from their source, removed ones fade out
+  transition: LevelFade;
+  onHover?: (isHovered: boolean) => void;
+  onSelect?: () => void;
 }) => {
-  const style = CONNECTION_STYLES[type];
   const dimOpacity = isHighlighted ? 1 : 0.3;
-  
-  // Calculate curved path
-  const points = useMemo(() => {
-    const start = new THREE.Vector3(fromWidget.x, fromWidget.y, 0);
-    const end = new THREE.Vector3(toWidget.x, toWidget.y, 0);
-    
-    const mid = start.clone().lerp(end, 0.5);
-    const perpendicular = new THREE.Vector3(
-      -(end.y - start.y),
-      end.x - start.x,
-      0
-    ).normalize();
-    
-    const distance = start.distanceTo(end);
-    mid.add(perpendicular.multiplyScalar(distance * 0.2));
-    mid.z = 0.15;
-    
-    // Create curve
-    const curve = new THREE.QuadraticBezierCurve3(start, mid, end);
-    return curve.getPoints(20);
-  }, [fromWidget.x, fromWidget.y, toWidget.x, toWidget.y]);
-  
-  // Particles for Data Flow
-  const particles = useMemo(() => {
-    if (!style.particles) return [];
-    return [0, 0.33, 0.66].map((offset, i) => {
-      const t = (time * 0.4 + offset) % 1;
-      const curve = new THREE.QuadraticBezierCurve3(
-        new THREE.Vector3(fromWidget.x, fromWidget.y, 0),
-        new THREE.Vector3(
-          (fromWidget.x + toWidget.x) / 2,
-          (fromWidget.y + toWidget.y) / 2 + 0.3,
-          0.15
-        ),
-        new THREE.Vector3(toWidget.x, toWidget.y, 0)
-      );
-      return { point: curve.getPoint(t), opacity: Math.sin(t * Math.PI), key: i };
-    });
-  }, [fromWidget, toWidget, time, style.particles]);
+  const divisions = 20 * ((waypoints?.length ?? 0) + 1);
+  const points = useMemo(() => path.curve.getPoints(divisions), [path, divisions]);
+
+  // Points of the curve as it is bent this frame, sampled again only after it moved
+  const drawnRef = useRef({ path, revision: path.revision, points });
+  const livePoints = () => {
+    const drawn = drawnRef.current;
+    if (drawn.path !== path || drawn.revision !== path.revision) {
+      drawnRef.current = { path, revision: path.revision, points: path.curve.getPoints(divisions) };
+    }
+    return drawnRef.current.points;
+  };
+
+  // Hit area along the line points, left out under the widgets so they stay clickable;
+  // built from the settled layout only, so it is not rebuilt while the widgets move
+  const isPickable = onSelect !== undefined;
+  const hitGeometry = useMemo(() => {
+    if (!isPickable) return null;
+    const start = points[0];
+    const end = points[points.length - 1];
+    const inner = points.filter((p) =>
+      Math.max(Math.abs(p.x - start.x), Math.abs(p.y - start.y)) > clearance[0] &&
+      Math.max(Math.abs(p.x - end.x), Math.abs(p.y - end.y)) > clearance[1]);
+    if (inner.length < 2) return null;
+    return new THREE.TubeGeometry(new THREE.CatmullRomCurve3(inner), inner.length * 2, HIT_RADIUS, 6, false);
+  }, [isPickable, points, clearance]);
+  useEffect(() => () => hitGeometry?.dispose(), [hitGeometry]);
+
+  const labelPosition = useMemo(() => (label ? path.curve.getPoint(0.5) : null), [path, label]);
   
   // Arrow for Logic Chain
-  const arrowPosition = useMemo(() => {
-    if (!style.arrows) return null;
-    const t = 0.7;
-    const curve = new THREE.QuadraticBezierCurve3(
-      new THREE.Vector3(fromWidget.x, fromWidget.y, 0),
-      new THREE.Vector3(
-        (fromWidget.x + toWidget.x) / 2,
-        (fromWidget.y + toWidget.y) / 2 + 0.3,
-        0.15
-      ),
-      new THREE.Vector3(toWidget.x, toWidget.y, 0)
-    );
-    const point = curve.getPoint(t);
-    const tangent = curve.getTangent(t);
-    const angle = Math.atan2(tangent.y, tangent.x);
-    return { point, angle };
-  }, [fromWidget, toWidget, style.arrows]);
+  const arrowPosition = useMemo(() => (style.arrows ? arrowOn(path.curve) : null), [path, style.arrows]);
+
+  // Label and arrow follow the curve while it is bent in place
+  const labelRef = useRef<THREE.Group>(null);
+  const arrowRef = useRef<THREE.Group>(null);
+  const arrowTipRef = useRef<THREE.Mesh>(null);
+  const placedRef = useRef({ path, revision: path.revision });
+  useFrame(() => {
+    const placed = placedRef.current;
+    if (placed.path === path && placed.revision === path.revision) return;
+    placedRef.current = { path, revision: path.revision };
+    if (labelRef.current) {
+      path.curve.getPoint(0.5, scratchPoint);
+      labelRef.current.position.set(scratchPoint.x, scratchPoint.y, scratchPoint.z + 0.12);
+    }
+    if (arrowRef.current && arrowTipRef.current) {
+      const { point, angle } = arrowOn(path.curve);
+      arrowRef.current.position.set(point.x, point.y, point.z + 0.05);
+      arrowTipRef.current.rotation.z = angle - Math.PI / 2;
+    }
+  });
+
+  const dashed = style.dash || isBackEdge;
+  const reveal = () => transition.scale;
 
   return (
-    <group>
-      {/* Main line */}
-      <Line
-        points={points}
-        color={style.color}
-        lineWidth={isHighlighted ? 3 : 1.5}
-        transparent
-        opacity={opacity * dimOpacity * (style.dash ? 0.6 : 0.8)}
-        dashed={style.dash}
-        dashSize={style.dash ? 0.1 : undefined}
-        gapSize={style.dash ? 0.05 : undefined}
-      />
-      
-      {/* Glow for highlighted */}
-      {isHighlighted && (
-        <Line
+    <LevelFadeContext.Provider value={transition}>
+      <group>
+        {/* Main line */}
+        <FadeLine
           points={points}
+          follow={livePoints}
           color={style.color}
-          lineWidth={8}
-          transparent
-          opacity={opacity * 0.25 * (1 + Math.sin(time * 3) * 0.3)}
+          lineWidth={isEmphasized ? lineWidth * 2 + 1 : isHighlighted ? lineWidth * 2 : lineWidth}
+          opacity={isEmphasized ? 1 : dimOpacity * (dashed ? 0.6 : 0.8)}
+          dashed={dashed}
+          dashSize={dashed ? 0.1 : undefined}
+          gapSize={dashed ? 0.05 : undefined}
+          reveal={reveal}
         />
-      )}
-      
-      {/* Particles for Data Flow */}
-      {style.particles && particles.map(({ point, opacity: pOpacity, key }) => (
-        <Sphere key={key} args={[0.04, 8, 8]} position={[point.x, point.y, point.z + 0.05]}>
-          <meshBasicMaterial color={style.color} transparent opacity={opacity * pOpacity * dimOpacity} />
-        </Sphere>
-      ))}
-      
-      {/* Arrow for Logic Chain */}
-      {style.arrows && arrowPosition && (
-        <group position={[arrowPosition.point.x, arrowPosition.point.y, arrowPosition.point.z + 0.05]}>
-          <mesh rotation={[0, 0, arrowPosition.angle - Math.PI / 2]}>
-            <coneGeometry args={[0.06, 0.12, 8]} />
-            <meshBasicMaterial color={style.color} transparent opacity={opacity * dimOpacity} />
+
+        {/* Glow for highlighted */}
+        {(isHighlighted || isEmphasized) && (
+          <FadeLine
+            points={points}
+            follow={livePoints}
+            color={style.color}
+            lineWidth={lineWidth * 2 + (isEmphasized ? 11 : 5)}
+            opacity={isEmphasized ? 0.4 : 0.25}
+            pulse={(time) => 1 + Math.sin(time * 3) * 0.3}
+            reveal={reveal}
+          />
+        )}
+
+        {/* Arrow for Logic Chain */}
+        {style.arrows && arrowPosition && (
+          <group ref={arrowRef} position={[arrowPosition.point.x, arrowPosition.point.y, arrowPosition.point.z + 0.05]}>
+            <mesh ref={arrowTipRef} rotation={[0, 0, arrowPosition.angle - Math.PI / 2]}>
+              <coneGeometry args={[0.06, 0.12, 8]} />
+              <FadeMaterial color={style.color} opacity={dimOpacity} />
+            </mesh>
+          </group>
+        )}
+
+        {/* Label at the middle of the line */}
+        {labelPosition && (
+          <Billboard ref={labelRef} follow position={[labelPosition.x, labelPosition.y, labelPosition.z + 0.12]}>
+            <FadeText
+              font={FONTS.body}
+              fontSize={0.07}
+              color={style.color}
+              anchorX="center"
+              anchorY="middle"
+              fillOpacity={isEmphasized ? 1 : dimOpacity * 0.8}
+            >
+              {label}
+            </FadeText>
+          </Billboard>
+        )}
+
+        {hitGeometry && (
+          <mesh
+            geometry={hitGeometry}
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect?.();
+            }}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              onHover?.(true);
+              document.body.style.cursor = 'pointer';
+            }}
+            onPointerOut={() => {
+              onHover?.(false);
+              document.body.style.cursor = 'default';
+            }}
+          >
+            <meshBasicMaterial visible={false} />
           </mesh>
-        </group>
-      )}
-    </group>
+        )}
+      </group>
+    </LevelFadeContext.Provider>
   );
 };
 
-// Connection Type Legend
-const ConnectionLegend = ({ opacity }: { opacity: number }) => (
-  <Billboard follow position={[4.5, 2.8, 0]}>
+// Swatch colors too dark to read as text are labelled in grey
+const legendTextColor = (color: string) =>
+  new THREE.Color(color).getHSL({ h: 0, s: 0, l: 0 }, THREE.SRGBColorSpace).l < 0.35 ? '#888888' : color;
+
+interface LegendItem {
+  entry: LegendEntry;
+  label: string;
+  color: string;
+}
+
+// Legend generated from the universe's registries; clicking a line hides that entry, hidden lines stay dimmed
+const Legend = ({
+  heading,
+  position,
+  items,
+  swatch,
+  hidden,
+  isInteractive,
+  onToggle,
+}: {
+  heading: string;
+  position: [number, number, number];
+  items: LegendItem[];
+  swatch: 'dot' | 'bar';
+  hidden: LegendEntry[];
+  isInteractive: boolean;
+  onToggle?: (entry: LegendEntry) => void;
+}) => (
+  <Billboard follow position={position}>
     <group>
-      <Text position={[0, 0.4, 0]} fontSize={0.1} color="#FFFFFF" anchorX="left" fillOpacity={opacity * 0.9}>
-        Типы связей:
-      </Text>
-      
-      {/* Data Flow */}
-      <group position={[0, 0.2, 0]}>
-        <mesh position={[-0.15, 0, 0]}>
-          <circleGeometry args={[0.04, 8]} />
-          <meshBasicMaterial color="#58C4DD" transparent opacity={opacity} />
-        </mesh>
-        <Text position={[0, 0, 0]} fontSize={0.07} color="#58C4DD" anchorX="left" fillOpacity={opacity * 0.9}>
-          Data Flow
-        </Text>
-      </group>
-      
-      {/* Dependency */}
-      <group position={[0, 0.05, 0]}>
-        <mesh position={[-0.15, 0, 0]}>
-          <circleGeometry args={[0.04, 8]} />
-          <meshBasicMaterial color="#9A72AC" transparent opacity={opacity} />
-        </mesh>
-        <Text position={[0, 0, 0]} fontSize={0.07} color="#9A72AC" anchorX="left" fillOpacity={opacity * 0.9}>
-          Dependency
-        </Text>
-      </group>
-      
-      {/* Context Link */}
-      <group position={[0, -0.1, 0]}>
-        <mesh position={[-0.15, 0, 0]}>
-          <circleGeometry args={[0.04, 8]} />
-          <meshBasicMaterial color="#E8B923" transparent opacity={opacity} />
-        </mesh>
-        <Text position={[0, 0, 0]} fontSize={0.07} color="#E8B923" anchorX="left" fillOpacity={opacity * 0.9}>
-          Context Link
-        </Text>
-      </group>
-      
-      {/* Logic Chain */}
-      <group position={[0, -0.25, 0]}>
-        <mesh position={[-0.15, 0, 0]}>
-          <circleGeometry args={[0.04, 8]} />
-          <meshBasicMaterial color="#FC6255" transparent opacity={opacity} />
-        </mesh>
-        <Text position={[0, 0, 0]} fontSize={0.07} color="#FC6255" anchorX="left" fillOpacity={opacity * 0.9}>
-          Logic Chain
-        </Text>
+      <FadeText position={[0, 0.4, 0]} font={FONTS.heading} fontSize={0.1} color="#FFFFFF" anchorX="left" fillOpacity={0.9}>
+        {heading}
+      </FadeText>
+
+      {items.map(({ entry, label, color }, i) => {
+        const opacity = hidden.includes(entry) ? 0.3 : 1;
+        return (
+          <group key={entry} position={[0, 0.2 - i * 0.15, 0]}>
+            {/* Hit area for the whole line */}
+            {isInteractive && onToggle && (
+              <mesh
+                position={[0.45, 0, -0.01]}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggle(entry);
+                }}
+                onPointerOver={(e) => {
+                  e.stopPropagation();
+                  document.body.style.cursor = 'pointer';
+                }}
+                onPointerOut={() => {
+                  document.body.style.cursor = 'default';
+                }}
+              >
+                <planeGeometry args={[1.3, 0.14]} />
+                <meshBasicMaterial visible={false} />
+              </mesh>
+            )}
+
+            {swatch === 'dot' ? (
+              <mesh position={[-0.15, 0, 0]}>
+                <circleGeometry args={[0.04, 8]} />
+                <FadeMaterial color={color} opacity={opacity} />
+              </mesh>
+            ) : (
+              <RoundedBox args={[0.08, 0.03, 0.01]} radius={0.005} position={[-0.15, 0, 0]}>
+                <FadeMaterial color={color} opacity={opacity} />
+              </RoundedBox>
+            )}
+            <FadeText position={[0, 0, 0]} fontSize={0.07} color={legendTextColor(color)} anchorX="left" fillOpacity={0.9 * opacity}>
+              {label}
+            </FadeText>
+          </group>
+        );
+      })}
+    </group>
+  </Billboard>
+);
+
+// Legend line for one weight, its particles moving at the weight's speed
+const WEIGHT_SAMPLE_START = -0.45;
+const WEIGHT_SAMPLE_LENGTH = 0.35;
+
+const WeightSample = ({ weight, color }: { weight: ConnectionWeight; color: string }) => {
+  const particlesRef = useRef<THREE.Group>(null);
+  const clock = useFrameClock();
+
+  useFrame(() => {
+    particlesRef.current?.children.forEach((particle, j) => {
+      const t = (clock.time * weight.speed + j / weight.particles) % 1;
+      particle.position.x = WEIGHT_SAMPLE_START + t * WEIGHT_SAMPLE_LENGTH;
+    });
+  });
+
+  return (
+    <group>
+      <FadeLine
+        points={[[WEIGHT_SAMPLE_START, 0, 0], [WEIGHT_SAMPLE_START + WEIGHT_SAMPLE_LENGTH, 0, 0]]}
+        color={color}
+        lineWidth={weight.lineWidth}
+        opacity={0.8}
+      />
+      <group ref={particlesRef}>
+        {Array.from({ length: weight.particles }, (_, j) => (
+          <mesh key={j} position={[WEIGHT_SAMPLE_START, 0, 0.01]}>
+            <circleGeometry args={[0.015, 8]} />
+            <FadeMaterial color="#FFFFFF" opacity={0.9} />
+          </mesh>
+        ))}
       </group>
     </group>
+  );
+};
+
+const formatWeight = (weight: number) => (Number.isInteger(weight) ? String(weight) : weight.toFixed(1));
+
+// How weights map to line width, particle count and speed, sampled at both ends and the middle of the scale
+const WeightLegend = ({ scale, color, position }: { scale: WeightScale; color: string; position: [number, number, number] }) => (
+  <Billboard follow position={position}>
+    <group>
+      <FadeText position={[0, 0.4, 0]} font={FONTS.heading} fontSize={0.1} color="#FFFFFF" anchorX="left" fillOpacity={0.9}>
+        {`${scale.label}:`}
+      </FadeText>
+
+      {legendWeights(scale).map((weight, i) => (
+        <group key={i} position={[0, 0.2 - i * 0.15, 0]}>
+          <WeightSample weight={connectionWeight(scale, weight)} color={color} />
+          <FadeText position={[0, 0, 0]} fontSize={0.07} color={color} anchorX="left" fillOpacity={0.9}>
+            {formatWeight(weight)}
+          </FadeText>
+        </group>
+      ))}
+    </group>
   </Billboard>
 );
 
+const widgetKey = (widget: PlacedWidget) => widget.id;
+const edgeKey = <T extends { key: string }>(edge: T) => edge.key;
+
 // Main Component
 export const FractalUniverse = ({
+  universe = DEFAULT_UNIVERSE,
+  layoutMode = 'force',
+  focusLayout = false,
+  legendFilter = EMPTY_LEGEND_FILTER,
+  onToggleLegendEntry,
+  pathHighlight = null,
+  impact = null,
+  onPickWidget,
+  liveMetrics,
+  editor,
+  selectedConnection = null,
+  onSelectConnection,
   depth,
   position,
-  scale,
-  opacity,
+  fade,
   onDiveIn,
   isActive,
+  selectedWidget,
+  onSelectWidget,
 }: FractalUniverseProps) => {
   const groupRef = useRef<THREE.Group>(null);
   const [hoveredWidget, setHoveredWidget] = useState<string | null>(null);
-  const [selectedWidget, setSelectedWidget] = useState<string | null>(null);
-  const timeRef = useRef(0);
-  const [time, setTime] = useState(0);
-
-  useFrame((_, delta) => {
-    timeRef.current += delta;
-    setTime(timeRef.current);
+  const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
+  const focusWidget = focusLayout ? selectedWidget : null;
+  const targetLayout = useMemo(
+    () => layoutUniverse(universe, layoutMode, focusWidget),
+    [universe, layoutMode, focusWidget]
+  );
+  // Edit mode drag, in the plane coordinates of this level; `offset` keeps the grab point under the pointer
+  const [drag, setDrag] = useState<{
+    id: string;
+    mode: DragMode;
+    origin: LayoutPosition;
+    point: LayoutPosition;
+    offset: LayoutPosition;
+  } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  // The click that ends a move must not toggle the selection
+  const suppressClickRef = useRef(false);
+  const heldPositions = useMemo(() => (drag?.mode === 'move'
+    ? { [drag.id]: { x: drag.point.x + drag.offset.x, y: drag.point.y + drag.offset.y } }
+    : null), [drag]);
+  const { positions, live } = useAnimatedLayout(targetLayout.positions, heldPositions);
+  const widgets = useMemo(() => placeWidgets(universe, positions), [universe, positions]);
+  // Highlighting, edges and the focus rings only see what the legends leave visible
+  const visibleUniverse = useMemo(() => applyLegendFilter(universe, legendFilter), [universe, legendFilter]);
+  const polledMetrics = useUniverseMetrics(universe.widgets);
+  const metrics = useMemo(() => {
+    if (!liveMetrics) return polledMetrics;
+    const merged = { ...polledMetrics };
+    Object.entries(liveMetrics).forEach(([id, tick]) => {
+      merged[id] = { ...polledMetrics[id], ...tick };
+    });
+    return merged;
+  }, [polledMetrics, liveMetrics]);
+  const health = useMemo(() => computeHealth(universe, metrics), [universe, metrics]);
+  // Widgets fading out of the universe keep the status they left with
+  const lastHealthRef = useRef(health);
+  lastHealthRef.current = { ...lastHealthRef.current, ...health };
+  const visibleIds = useMemo(() => new Set(visibleUniverse.widgets.map(w => w.id)), [visibleUniverse]);
+  const visibleWidgets = useMemo(() => widgets.filter(w => visibleIds.has(w.id)), [widgets, visibleIds]);
+  // Widgets that just left the universe or the legends stay a little longer to fade out
+  const widgetTransitions = useTransitions(visibleWidgets, widgetKey, fade);
+  // Layer routing only applies once widgets have reached their layered positions
+  const isLayoutSettled = positions === targetLayout.positions && !heldPositions;
+  const clock = useFrameClock();
+  // One material for every background dot, faded together with the level
+  useFrame(() => {
+    if (!groupRef.current) return;
+    groupRef.current.scale.setScalar(fade.scale);
     
-    if (groupRef.current && isActive) {
-      groupRef.current.rotation.y = Math.sin(timeRef.current * 0.08) * 0.03;
-      groupRef.current.rotation.x = -0.3 + Math.sin(timeRef.current * 0.1) * 0.02;
+    if (isActive) {
+      groupRef.current.rotation.y = Math.sin(clock.time * 0.08) * 0.03;
+      groupRef.current.rotation.x = UNIVERSE_TILT + Math.sin(clock.time * 0.1) * 0.02;
     }
   });
 
-  const activeWidget = hoveredWidget || selectedWidget;
+  // A widget hidden by the legends no longer drives the highlighting
+  const activeWidget = [hoveredWidget, selectedWidget].find(id => id !== null && visibleIds.has(id)) ?? null;
   
   // Calculate related widgets and connections
   const { relatedWidgets, highlightedConnections } = useMemo(() => {
+    // Impact mode shows the blast radius instead
+    if (impact) {
+      return { relatedWidgets: new Set(impact.widgets.keys()), highlightedConnections: new Set(impact.connections.keys()) };
+    }
+
+    // Path mode shows the route and its ends instead
+    if (pathHighlight) {
+      const related = new Set([pathHighlight.source, pathHighlight.target].filter(id => id !== null));
+      const highlighted = new Set<string>();
+      pathHighlight.steps?.forEach(({ connection }) => {
+        related.add(connection.from);
+        related.add(connection.to);
+        highlighted.add(connectionKey(connection));
+      });
+      return { relatedWidgets: related, highlightedConnections: highlighted };
+    }
+
     if (!activeWidget) return { relatedWidgets: new Set<string>(), highlightedConnections: new Set<string>() };
     
     const related = new Set<string>([activeWidget]);
     const highlighted = new Set<string>();
     
-    CONNECTIONS.forEach((conn) => {
+    visibleUniverse.connections.forEach((conn) => {
       if (conn.from === activeWidget || conn.to === activeWidget) {
         related.add(conn.from);
         related.add(conn.to);
-        highlighted.add(`${conn.from}-${conn.to}`);
+        highlighted.add(connectionKey(conn));
       }
     });
     
     // Also add widgets from connects array
-    const widget = WIDGETS.find(w => w.id === activeWidget);
+    const widget = visibleUniverse.widgets.find(w => w.id === activeWidget);
     if (widget) {
       widget.connects.forEach(id => related.add(id));
     }
+
+    // In the radial layout the second ring stays in focus too
+    if (activeWidget === focusWidget) {
+      hopDistances(visibleUniverse, focusWidget).forEach((hops, id) => {
+        if (hops <= 2) related.add(id);
+      });
+    }
     
     return { relatedWidgets: related, highlightedConnections: highlighted };
-  }, [activeWidget]);
+  }, [activeWidget, focusWidget, visibleUniverse, pathHighlight, impact]);
+
+  // Everything outside the highlight is dimmed
+  const isDimming = pathHighlight || impact ? relatedWidgets.size > 0 : activeWidget !== null;
+
+  // Connections the failure travels along take the color of their hop
+  const edgeColor = useCallback((key: string, style: ConnectionStyle) =>
+    impact?.connections.has(key) ? impactColor(impact.connections.get(key)) : style.color, [impact]);
+
+  const weightScale = universe.weightScale ?? DEFAULT_WEIGHT_SCALE;
+  // The weight legend appears once the universe has a scale or a weighted connection
+  const hasWeights = universe.weightScale !== undefined || universe.connections.some(c => c.weight !== undefined);
+
+  // Curves are shared by the connection lines and the particle batch
+  const edges = useMemo(() => visibleUniverse.connections.flatMap((conn) => {
+    const fromWidget = widgets.find(w => w.id === conn.from);
+    const toWidget = widgets.find(w => w.id === conn.to);
+    if (!fromWidget || !toWidget) return [];
+
+    const key = connectionKey(conn);
+    const waypoints = isLayoutSettled ? targetLayout.routes[key] : undefined;
+    const isBackEdge = targetLayout.backEdges.includes(key);
+    // Half of a hovered widget
+    const clearance: [number, number] = [fromWidget, toWidget].map(w =>
+      WIDGET_BASE_SIZE * universe.priorities[w.priority].scale * 0.65) as [number, number];
+    const weight = connectionWeight(weightScale, conn.weight);
+    const path: EdgePath = { curve: connectionCurve(fromWidget, toWidget, waypoints, isBackEdge), revision: 0 };
+    return [{ key, conn, waypoints, isBackEdge, clearance, weight, path }];
+  }), [visibleUniverse.connections, widgets, targetLayout, isLayoutSettled, universe.priorities, weightScale]);
+  const edgeTransitions = useTransitions(edges, edgeKey, fade);
+
+  // Connections are bent to where the tween has their widgets before anything draws them
+  const edgeTransitionsRef = useRef(edgeTransitions);
+  edgeTransitionsRef.current = edgeTransitions;
+  useFrame(() => {
+    edgeTransitionsRef.current.forEach(({ item: { conn, path, isBackEdge } }) => {
+      const from = live.current[conn.from];
+      const to = live.current[conn.to];
+      if (from && to) followWidgets(path, from, to, isBackEdge);
+    });
+  }, LAYOUT_FRAME_PRIORITY + 1);
+
+  const particleFlows = useMemo(() => {
+    const flows: ParticleFlow[] = edges
+      // Connections on the route get the route's particles below
+      .filter(({ key, conn }) => universe.styles[conn.type].particles && !(pathHighlight && highlightedConnections.has(key)))
+      .map(({ key, conn, path, weight }) => ({
+        curve: path.curve,
+        color: edgeColor(key, universe.styles[conn.type]),
+        dim: !isDimming || highlightedConnections.has(key) ? 1 : 0.3,
+        weight,
+      }));
+
+    // The route flows from source to target as Data Flow particles
+    pathHighlight?.steps?.forEach(({ connection, reversed }) => {
+      const edge = edges.find(e => e.key === connectionKey(connection));
+      if (edge) flows.push({ curve: edge.path.curve, color: universe.styles.dataFlow.color, dim: 1, reversed, weight: UNWEIGHTED });
+    });
+    return flows;
+  }, [edges, universe.styles, isDimming, highlightedConnections, pathHighlight, edgeColor]);
+
+  const connectionItems = useMemo(() => (Object.keys(universe.styles) as ConnectionType[]).map((type) => ({
+    entry: type,
+    label: universe.styles[type].label,
+    color: universe.styles[type].color,
+  })), [universe.styles]);
+
+  const priorityItems = useMemo(() => (Object.keys(universe.priorities) as Priority[]).map((priority) => ({
+    entry: priority,
+    label: `${universe.priorities[priority].label} (${universe.priorities[priority].scale}x)`,
+    color: universe.priorities[priority].color,
+  })), [universe.priorities]);
 
   const handleHover = useCallback((id: string | null) => {
     setHoveredWidget(id);
   }, []);
 
   const handleSelect = useCallback((id: string) => {
-    setSelectedWidget(selectedWidget === id ? null : id);
-  }, [selectedWidget]);
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    // Widgets fading out can no longer be picked
+    if (!visibleIds.has(id)) return;
+    if (onPickWidget) {
+      onPickWidget(id);
+      return;
+    }
+    onSelectWidget(selectedWidget === id ? null : id);
+  }, [selectedWidget, onSelectWidget, onPickWidget, visibleIds]);
+
+  const toPlane = useCallback((point: THREE.Vector3): LayoutPosition => {
+    const local = groupRef.current?.worldToLocal(point.clone()) ?? point;
+    return { x: local.x, y: local.y };
+  }, []);
+
+  const handleDragStart = useCallback((id: string, mode: DragMode, point: THREE.Vector3) => {
+    // A widget can be grabbed while it is still moving
+    const widget = live.current[id];
+    if (!widget) return;
+    const at = toPlane(point);
+    suppressClickRef.current = false;
+    setDrag({
+      id,
+      mode,
+      origin: at,
+      point: at,
+      offset: mode === 'move' ? { x: widget.x - at.x, y: widget.y - at.y } : { x: 0, y: 0 },
+    });
+  }, [live, toPlane]);
+
+  // Moves are committed on release; a connection needs to end on another widget
+  const finishDrag = () => {
+    const current = dragRef.current;
+    setDrag(null);
+    if (!current || !editor) return;
+
+    const { id, mode, origin, point, offset } = current;
+    if (mode === 'move') {
+      if (Math.hypot(point.x - origin.x, point.y - origin.y) < 0.02) return;
+      suppressClickRef.current = true;
+      editor.onMoveWidget(id, { x: point.x + offset.x, y: point.y + offset.y });
+      return;
+    }
+
+    const target = visibleWidgets.find((w) => {
+      const half = (WIDGET_BASE_SIZE * universe.priorities[w.priority].scale) / 2;
+      return Math.abs(point.x - w.x) <= half && Math.abs(point.y - w.y) <= half;
+    });
+    if (target && target.id !== id) editor.onConnectWidgets(id, target.id);
+  };
+  const finishDragRef = useRef(finishDrag);
+  finishDragRef.current = finishDrag;
+
+  // Released anywhere, even outside the canvas
+  const isDragging = drag !== null;
+  useEffect(() => {
+    if (!isDragging) return;
+    const handlePointerUp = () => finishDragRef.current();
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => window.removeEventListener('pointerup', handlePointerUp);
+  }, [isDragging]);
+
+  const connectPreview = useMemo(() => {
+    if (drag?.mode !== 'connect') return null;
+    const from = live.current[drag.id];
+    return from ? [new THREE.Vector3(from.x, from.y, 0.05), new THREE.Vector3(drag.point.x, drag.point.y, 0.05)] : null;
+  }, [drag, live]);
+
+  // Hit areas go away while dragging and while the layout moves, without a pointer-out for the edge under the pointer
+  const pickableHover = onSelectConnection && !drag && isLayoutSettled ? hoveredEdge : null;
+
+  // Dives into the widget's child universe
+  const handleDive = useCallback((id: string) => {
+    if (!isActive) return;
+    onDiveIn(id, depth + 1);
+  }, [isActive, onDiveIn, depth]);
 
   return (
-    <group ref={groupRef} position={position} scale={scale} rotation={[-0.3, 0, 0]}>
-      {/* Background grid */}
-      {Array.from({ length: 20 }).map((_, i) =>
-        Array.from({ length: 15 }).map((_, j) => (
-          <mesh key={`dot-${i}-${j}`} position={[-9 + i, -6 + j * 0.9, -0.5]}>
-            <circleGeometry args={[0.012, 6]} />
-            <meshBasicMaterial color="#2C2C2E" transparent opacity={opacity * 0.4} />
-          </mesh>
-        ))
-      )}
-
-      {/* Connections */}
-      {CONNECTIONS.map((conn) => {
-        const fromWidget = WIDGETS.find(w => w.id === conn.from);
-        const toWidget = WIDGETS.find(w => w.id === conn.to);
-        if (!fromWidget || !toWidget) return null;
-        
-        const isHighlighted = highlightedConnections.has(`${conn.from}-${conn.to}`);
-        
-        return (
+    <LevelFadeContext.Provider value={fade}>
+      <group ref={groupRef} position={position} scale={0} rotation={[UNIVERSE_TILT, 0, 0]}>
+        {/* Background grid */}
+        <BackgroundDots />
+
+        {/* Connections */}
+        {edgeTransitions.map(({ key, item: { conn, path, waypoints, isBackEdge, clearance, weight }, fade: transition, isLeaving }) => (
           <ConnectionLine
-            key={`${conn.from}-${conn.to}`}
-            fromWidget={fromWidget}
-            toWidget={toWidget}
-            type={conn.type}
-            opacity={opacity}
-            time={time}
-            isHighlighted={!activeWidget || isHighlighted}
+            key={key}
+            path={path}
+            style={{ ...universe.styles[conn.type], color: edgeColor(key, universe.styles[conn.type]) }}
+            label={conn.label}
+            lineWidth={weight.lineWidth}
+            isHighlighted={!isDimming || highlightedConnections.has(key)}
+            isEmphasized={key === pickableHover || key === selectedConnection}
+            waypoints={waypoints}
+            isBackEdge={isBackEdge}
+            clearance={clearance}
+            transition={transition}
+            onHover={(isHovered) => setHoveredEdge(isHovered ? key : null)}
+            // Not while a widget is being dragged across it or the layout is moving
+            onSelect={onSelectConnection && !drag && !isLeaving && isLayoutSettled
+              ? () => onSelectConnection(selectedConnection === key ? null : conn)
+              : undefined}
           />
-        );
-      })}
+        ))}
+
+        {/* Particles for Data Flow */}
+        <DataFlowParticles flows={particleFlows} />
 
-      {/* Widgets */}
-      {WIDGETS.map((widget) => {
-        const isHovered = hoveredWidget === widget.id;
-        const isSelected = selectedWidget === widget.id;
-        const isFocusRelated = relatedWidgets.has(widget.id);
-        const isBlurred = activeWidget !== null && !isFocusRelated;
+        {/* Widgets */}
+        {widgetTransitions.map(({ item: widget, fade: transition, isLeaving }) => {
+          const isHovered = hoveredWidget === widget.id;
+          const isSelected = pathHighlight
+            ? widget.id === pathHighlight.source || widget.id === pathHighlight.target
+            : selectedWidget === widget.id;
+          const isFocusRelated = relatedWidgets.has(widget.id);
+          const isBlurred = isDimming && !isFocusRelated;
         
-        return (
-          <IOS26Widget
-            key={widget.id}
-            widget={widget}
-            opacity={opacity}
-            time={time}
-            isHovered={isHovered}
-            isSelected={isSelected}
-            isFocusRelated={isFocusRelated}
-            isBlurred={isBlurred}
-            onHover={handleHover}
-            onSelect={handleSelect}
+          return (
+            <IOS26Widget
+              key={widget.id}
+              widget={widget}
+              priorityStyle={universe.priorities[widget.priority]}
+              isHovered={isHovered}
+              isSelected={isSelected}
+              isFocusRelated={isFocusRelated}
+              isBlurred={isBlurred}
+              alertColor={impact?.widgets.has(widget.id) ? impactColor(impact.widgets.get(widget.id)) : undefined}
+              health={lastHealthRef.current[widget.id]}
+              load={metrics[widget.id]?.infoLoad ?? widget.infoLoad}
+              canDive={!isLeaving && resolveChildUniverse(universe, widget) !== null}
+              transition={transition}
+              live={live}
+              onHover={handleHover}
+              onSelect={handleSelect}
+              onDive={handleDive}
+              onDragStart={editor && !isLeaving ? handleDragStart : undefined}
+            />
+          );
+        })}
+
+        {/* Edit mode: the pointer is tracked on the whole plane while dragging */}
+        {drag && (
+          <mesh onPointerMove={(e) => {
+            const point = toPlane(e.point);
+            setDrag(prev => prev && { ...prev, point });
+          }}>
+            <planeGeometry args={[40, 40]} />
+            <meshBasicMaterial visible={false} />
+          </mesh>
+        )}
+        {connectPreview && editor && (
+          <FadeLine
+            points={connectPreview}
+            color={universe.styles[editor.connectionType].color}
+            lineWidth={2}
+            opacity={0.9}
+            dashed
+            dashSize={0.1}
+            gapSize={0.05}
           />
-        );
-      })}
+        )}
 
-      {/* Legend */}
-      <ConnectionLegend opacity={opacity} />
-
-      {/* Title */}
-      <Billboard follow position={[0, 3.8, 0]}>
-        <Text
-          fontSize={0.25}
-          color="#FFFFFF"
-          anchorX="center"
-          anchorY="middle"
-          fillOpacity={opacity * 0.95}
-        >
-          Ядро Ленин — iOS 26 Ecosystem
-        </Text>
-        <Text
-          position={[0, -0.35, 0]}
-          fontSize={0.1}
-          color="#888888"
-          anchorX="center"
-          anchorY="middle"
-          fillOpacity={opacity * 0.7}
-        >
-          Наведите на виджет для режима фокусировки
-        </Text>
-      </Billboard>
-
-      {/* Priority Legend */}
-      <Billboard follow position={[-4.5, 2.8, 0]}>
-        <group>
-          <Text position={[0, 0.4, 0]} fontSize={0.1} color="#FFFFFF" anchorX="left" fillOpacity={opacity * 0.9}>
-            Приоритет:
-          </Text>
-          
-          <group position={[0, 0.2, 0]}>
-            <RoundedBox args={[0.08, 0.03, 0.01]} radius={0.005} position={[-0.15, 0, 0]}>
-              <meshBasicMaterial color="#FC6255" transparent opacity={opacity} />
-            </RoundedBox>
-            <Text position={[0, 0, 0]} fontSize={0.07} color="#FC6255" anchorX="left" fillOpacity={opacity * 0.9}>
-              Critical (1.5x)
-            </Text>
-          </group>
-          
-          <group position={[0, 0.05, 0]}>
-            <RoundedBox args={[0.08, 0.03, 0.01]} radius={0.005} position={[-0.15, 0, 0]}>
-              <meshBasicMaterial color="#F39C12" transparent opacity={opacity} />
-            </RoundedBox>
-            <Text position={[0, 0, 0]} fontSize={0.07} color="#F39C12" anchorX="left" fillOpacity={opacity * 0.9}>
-              High (1.35x)
-            </Text>
-          </group>
-          
-          <group position={[0, -0.1, 0]}>
-            <RoundedBox args={[0.08, 0.03, 0.01]} radius={0.005} position={[-0.15, 0, 0]}>
-              <meshBasicMaterial color="#58C4DD" transparent opacity={opacity} />
-            </RoundedBox>
-            <Text position={[0, 0, 0]} fontSize={0.07} color="#58C4DD" anchorX="left" fillOpacity={opacity * 0.9}>
-              Medium (1.2x)
-            </Text>
-          </group>
-          
-          <group position={[0, -0.25, 0]}>
-            <RoundedBox args={[0.08, 0.03, 0.01]} radius={0.005} position={[-0.15, 0, 0]}>
-              <meshBasicMaterial color="#48484A" transparent opacity={opacity} />
-            </RoundedBox>
-            <Text position={[0, 0, 0]} fontSize={0.07} color="#888888" anchorX="left" fillOpacity={opacity * 0.9}>
-              Low (1x)
-            </Text>
-          </group>
-        </group>
-      </Billboard>
-    </group>
+        {/* Legend */}
+        <Legend
+          heading="Типы связей:"
+          position={[4.5, 2.8, 0]}
+          items={connectionItems}
+          swatch="dot"
+          hidden={legendFilter.connections}
+          isInteractive={isActive}
+          onToggle={onToggleLegendEntry}
+        />
+
+        {/* Weight scale, under the connection types */}
+        {hasWeights && (
+          <WeightLegend scale={weightScale} color={universe.styles.dataFlow.color} position={[4.5, 1.9, 0]} />
+        )}
+
+        {/* Title */}
+        <Billboard follow position={[0, 3.8, 0]}>
+          <FadeText
+            font={FONTS.heading}
+            fontSize={0.25}
+            color="#FFFFFF"
+            anchorX="center"
+            anchorY="middle"
+            fillOpacity={0.95}
+          >
+            {universe.title}
+          </FadeText>
+          {universe.subtitle && (
+            <FadeText
+              position={[0, -0.35, 0]}
+              font={FONTS.heading}
+              fontSize={0.1}
+              color="#888888"
+              anchorX="center"
+              anchorY="middle"
+              fillOpacity={0.7}
+            >
+              {universe.subtitle}
+            </FadeText>
+          )}
+        </Billboard>
+
+        {/* Priority Legend */}
+        <Legend
+          heading="Приоритет:"
+          position={[-4.5, 2.8, 0]}
+          items={priorityItems}
+          swatch="bar"
+          hidden={legendFilter.priorities}
+          isInteractive={isActive}
+          onToggle={onToggleLegendEntry}
+        />
+      </group>
+    </LevelFadeContext.Provider>
   );
 };
@@ -0,0 +1,79 @@
+import { Redo2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { EditHistory } from './history';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (position: number) => void;
+}
+
+// Edit history in the bottom-left corner; a click on a row returns the document to the state after it
+export const HistoryPanel = ({ history, onUndo, onRedo, onGoTo }: HistoryPanelProps) => {
+  const { past, future } = history;
+  const entries = [...past, ...future];
+
+  const row = (key: number | string, label: string, position: number) => {
+    const isCurrent = position === past.length;
+    return (
+      <button
+        key={key}
+        type="button"
+        onClick={() => onGoTo(position)}
+        className="flex w-full items-center gap-2 px-2 py-0.5 rounded text-left text-[12px] font-light hover:bg-white/5"
+        style={{
+          color: isCurrent ? '#58C4DD' : 'rgba(255,255,255,0.8)',
+          // Undone steps stay in the list until a new edit replaces them
+          opacity: position > past.length ? 0.4 : 1,
+        }}
+      >
+        <span className="truncate">{label}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className="absolute bottom-8 left-8 z-10 w-64 px-4 py-3 rounded-lg space-y-2"
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[14px]" style={{ color: '#58C4DD' }}>История</span>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={past.length === 0}
+            onClick={onUndo}
+            title="Отменить (Ctrl+Z)"
+            className="h-6 w-6 rounded-md hover:bg-white/5"
+            style={{ color: 'rgba(255,255,255,0.7)' }}
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={future.length === 0}
+            onClick={onRedo}
+            title="Повторить (Ctrl+Shift+Z)"
+            className="h-6 w-6 rounded-md hover:bg-white/5"
+            style={{ color: 'rgba(255,255,255,0.7)' }}
+          >
+            <Redo2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto space-y-0.5">
+        {row('initial', 'Исходное состояние', 0)}
+        {entries.map((entry, i) => row(entry.id, entry.label, i + 1))}
+      </div>
+    </div>
+  );
+};
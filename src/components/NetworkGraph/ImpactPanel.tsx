@@ -0,0 +1,69 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { impactColor } from './impact';
+import type { ImpactAnalysis, UniverseDocument } from './types';
+
+interface ImpactPanelProps {
+  universe: UniverseDocument;
+  impact: ImpactAnalysis | null;
+  onClose: () => void;
+}
+
+// Blast radius of the failed widget, one row per hop distance
+export const ImpactPanel = ({ universe, impact, onClose }: ImpactPanelProps) => {
+  const titleOf = (id: string) => universe.widgets.find(w => w.id === id)?.title ?? id;
+
+  const rings: string[][] = [];
+  impact?.widgets.forEach((hops, id) => {
+    if (hops > 0) (rings[hops - 1] ??= []).push(id);
+  });
+  const affectedCount = impact ? impact.widgets.size - 1 : 0;
+
+  return (
+    <div
+      className="absolute top-8 right-8 z-10 w-64 px-4 py-3 rounded-lg space-y-3"
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[14px]" style={{ color: '#58C4DD' }}>Анализ отказа</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-6 w-6 rounded-md hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.7)' }}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {!impact ? (
+        <div className="text-[12px] font-light" style={{ color: 'rgba(88, 196, 221, 0.7)' }}>
+          Выберите виджет, который отказал
+        </div>
+      ) : (
+        <div className="text-[13px] font-light space-y-2 text-white/80">
+          <div>
+            Отказ: <span style={{ color: impactColor(0) }}>{titleOf(impact.failed)}</span>
+          </div>
+          <div className="text-[12px]" style={{ color: 'rgba(88, 196, 221, 0.7)' }}>
+            {affectedCount > 0 ? `Затронуто виджетов: ${affectedCount}` : 'Другие виджеты не затронуты'}
+          </div>
+
+          {rings.map((ids, i) => (
+            <div key={i} className="flex gap-2">
+              <span className="shrink-0 text-[11px] pt-0.5" style={{ color: impactColor(i + 1) }}>
+                {i + 1} шаг
+              </span>
+              <span className="text-white">{ids.map(titleOf).join(', ')}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
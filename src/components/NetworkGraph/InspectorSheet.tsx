@@ -0,0 +1,37 @@
+import type { ReactNode } from 'react';
+import { Sheet, SheetContent } from '@/components/ui/sheet';
+
+// Shared look of the inspector controls on the dark sheet
+export const FIELD_CLASS = 'h-8 bg-transparent border-white/15 text-[13px] text-white';
+export const LABEL_CLASS = 'text-[12px] font-light text-white/70';
+export const MENU_CLASS = 'border-white/15 bg-[#282828] text-white';
+
+// Shown instead of the editing controls while edit mode is off
+export const ReadOnlyHint = () => (
+  <div className="text-[12px] text-white/40">Изменения — в режиме редактирования</div>
+);
+
+interface InspectorSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  children: ReactNode;
+}
+
+// Right-hand sheet that leaves the scene usable: no overlay, and clicks outside pick something else instead of closing it
+export const InspectorSheet = ({ open, onOpenChange, children }: InspectorSheetProps) => (
+  <Sheet open={open} onOpenChange={onOpenChange} modal={false}>
+    <SheetContent
+      className="overflow-y-auto text-white [&>button]:text-white/70"
+      style={{
+        background: 'rgba(40, 40, 40, 0.95)',
+        borderLeft: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+      onInteractOutside={(event) => event.preventDefault()}
+      // Focus stays on the scene so the keyboard shortcuts keep working
+      onOpenAutoFocus={(event) => event.preventDefault()}
+    >
+      {children}
+    </SheetContent>
+  </Sheet>
+);
@@ -1,14 +1,328 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { FractalScene } from './FractalScene';
+import { FractalScene, type UniverseNavigation } from './FractalScene';
+import type { UniverseEditor } from './FractalUniverse';
 import { Controls } from './Controls';
+import { UniverseBreadcrumbs } from './UniverseBreadcrumbs';
+import { WidgetSearch } from './WidgetSearch';
+import { PathPanel } from './PathPanel';
+import { ImpactPanel } from './ImpactPanel';
+import { StreamStatusIndicator } from './StreamStatusIndicator';
+import { EditorPanel } from './EditorPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { WidgetInspector } from './WidgetInspector';
+import { ConnectionInspector } from './ConnectionInspector';
+import { DEFAULT_UNIVERSE, isSamePath, type WidgetLocation } from './universe';
+import { STARTING_UNIVERSE, withDemo, withoutDemo } from './demoUniverse';
+import { useUniverseFonts } from './fonts';
+import { applyLegendFilter, toggleLegendEntry, type LegendEntry } from './legendFilter';
+import { connectionKey, downstreamImpact, shortestPath } from './layout';
+import { useUniverseRoute } from './useUniverseRoute';
+import { applyStreamEvent, useUniverseStream, type StreamedUniverse } from './stream';
+import { clearStoredUniverse, loadStoredUniverse, storeUniverse } from './universeStorage';
+import { createWidget, type WidgetTemplate } from './editor';
+import { useEditHistory } from './history';
+import type { LayoutMode } from './layout';
+import type { Connection, ConnectionType, PathHighlight, PathQuery, StreamEvent, UniverseDocument, Widget } from './types';
+
+const titleOf = (universe: UniverseDocument, id: string) => universe.widgets.find(w => w.id === id)?.title ?? id;
+
+const applyEvents = (document: UniverseDocument, events: StreamEvent[]) =>
+  events.reduce(applyStreamEvent, { document, metrics: {} }).document;
 
 export const NetworkVisualization = () => {
   const [isPaused, setIsPaused] = useState(false);
   const [resetTrigger, setResetTrigger] = useState(0);
-  const [canGoBack, setCanGoBack] = useState(false);
+  const [navigation, setNavigation] = useState<UniverseNavigation | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>('force');
+  const [focusLayout, setFocusLayout] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [pathQuery, setPathQuery] = useState<PathQuery | null>(null);
+  const [impactMode, setImpactMode] = useState(false);
+  const [failedWidget, setFailedWidget] = useState<string | null>(null);
+  const [editMode, setEditMode] = useState(false);
+  const [connectionType, setConnectionType] = useState<ConnectionType>('dataFlow');
+  const [isInspectorOpen, setIsInspectorOpen] = useState(false);
+  const [selectedConnection, setSelectedConnection] = useState<string | null>(null);
+  // Edits from a previous session, if there are any
+  // Only editor changes land here, never what the stream does to the shown document
+  const [editedDocument, setEditedDocument] = useState(loadStoredUniverse);
+  const [initialDocument] = useState(() => (editedDocument ? withDemo(editedDocument) : STARTING_UNIVERSE));
+  const isEdited = editedDocument !== null;
+  const fontsReady = useUniverseFonts(initialDocument);
+  const [streamed, setStreamed] = useState<StreamedUniverse>(() => ({ document: initialDocument, metrics: {} }));
   const containerRef = useRef<HTMLDivElement>(null);
-  const goBackRef = useRef<(() => void) | null>(null);
+  const { route, setRoute } = useUniverseRoute();
+  const [initialRoute] = useState(route);
+  const routeRef = useRef(route);
+  routeRef.current = route;
+  const navigationRef = useRef(navigation);
+  navigationRef.current = navigation;
+  const hasSyncedRouteRef = useRef(false);
+
+  // Scene → address bar: a dive pushes a browser history entry, going back rewinds to it
+  useEffect(() => {
+    if (!navigation) return;
+    const current = routeRef.current;
+    const path = navigation.levels[navigation.depth].path;
+    const pathChanged = !isSamePath(path, current.path);
+    const isFirstSync = !hasSyncedRouteRef.current;
+    hasSyncedRouteRef.current = true;
+    if (!pathChanged && navigation.selectedWidget === current.select) return;
+
+    setRoute(
+      { path, select: navigation.selectedWidget, camera: pathChanged ? null : current.camera, hidden: current.hidden },
+      { replace: isFirstSync || !pathChanged }
+    );
+  }, [navigation, setRoute]);
+
+  // Address bar → scene: the browser's back / forward buttons and pasted links
+  const routeKey = `${route.path.join('/')}?${route.select ?? ''}`;
+  useEffect(() => {
+    const current = navigationRef.current;
+    if (!current) return;
+    const { path, select } = routeRef.current;
+    if (isSamePath(current.levels[current.depth].path, path) && current.selectedWidget === select) return;
+    current.navigateToPath(path, select);
+  }, [routeKey]);
+
+  // Stream events are applied to the document one by one, and the scene picks up the changes
+  const handleStreamEvent = useCallback((event: StreamEvent) => {
+    setStreamed((prev) => applyStreamEvent(prev, event));
+  }, []);
+  const streamStatus = useUniverseStream(streamed.document.stream, handleStreamEvent);
+
+  // The edited document survives a reload
+  useEffect(() => {
+    if (editedDocument) storeUniverse(withoutDemo(editedDocument));
+  }, [editedDocument]);
+
+  // Path and impact modes work on the active level and reset when another level becomes active
+  const activeLevel = navigation?.levels[navigation.depth] ?? null;
+  const activeLevelKey = activeLevel?.path.join('/');
+  useEffect(() => {
+    setPathQuery((prev) => prev && { ...prev, source: null, target: null });
+    setFailedWidget(null);
+    setSelectedConnection(null);
+  }, [activeLevelKey]);
+
+  const pathHighlight = useMemo<PathHighlight | null>(() => {
+    if (!pathQuery || !activeLevel) return null;
+    const { source, target, types, directed } = pathQuery;
+    const steps = source && target
+      ? shortestPath(applyLegendFilter(activeLevel.universe, route.hidden), source, target, { types, directed })
+      : null;
+    return { source, target, steps };
+  }, [pathQuery, activeLevel, route.hidden]);
+
+  const impact = useMemo(() => {
+    if (!impactMode || !failedWidget || !activeLevel) return null;
+    return downstreamImpact(applyLegendFilter(activeLevel.universe, route.hidden), failedWidget);
+  }, [impactMode, failedWidget, activeLevel, route.hidden]);
+
+  // Path, impact and edit modes each handle clicks their own way, so only one is on at a time
+  const handleTogglePathMode = useCallback(() => {
+    setPathQuery((prev) => (prev ? null : { source: null, target: null, types: [], directed: false }));
+    setImpactMode(false);
+    setEditMode(false);
+    // Mode panels take the inspectors' place
+    setIsInspectorOpen(false);
+    setSelectedConnection(null);
+  }, []);
+
+  const handleToggleImpactMode = useCallback(() => {
+    setImpactMode((prev) => !prev);
+    setFailedWidget(null);
+    setPathQuery(null);
+    setEditMode(false);
+    setIsInspectorOpen(false);
+    setSelectedConnection(null);
+  }, []);
+
+  const handleToggleEditMode = useCallback(() => {
+    setEditMode((prev) => !prev);
+    setPathQuery(null);
+    setImpactMode(false);
+    setFailedWidget(null);
+    // Dragging pins coordinates, and only the force layout honours them
+    setLayoutMode('force');
+    setFocusLayout(false);
+  }, []);
+
+  const handlePickFailedWidget = useCallback((widgetId: string) => {
+    setFailedWidget((prev) => (prev === widgetId ? null : widgetId));
+  }, []);
+
+  // The first click picks the start, the second the end, the next one starts over
+  const handlePickPathWidget = useCallback((widgetId: string) => {
+    setPathQuery((prev) => {
+      if (!prev) return prev;
+      if (!prev.source || prev.target) return { ...prev, source: widgetId, target: null };
+      if (prev.source === widgetId) return { ...prev, source: null };
+      return { ...prev, target: widgetId };
+    });
+  }, []);
+
+  // Editor changes are the same events the stream sends; the history can undo and redo them
+  const applyEdits = useCallback((events: StreamEvent[]) => {
+    setStreamed((prev) => events.reduce(applyStreamEvent, prev));
+    setEditedDocument((prev) => applyEvents(prev ?? DEFAULT_UNIVERSE, events));
+  }, []);
+  const { history, execute, undo, redo, goTo, clear: clearHistory } = useEditHistory(streamed.document, applyEdits);
+
+  const editor = useMemo<UniverseEditor | undefined>(() => {
+    if (!editMode || !activeLevel) return undefined;
+    const { path, universe } = activeLevel;
+    return {
+      connectionType,
+      onMoveWidget: (widgetId, { x, y }) => {
+        const widget = universe.widgets.find(w => w.id === widgetId);
+        if (!widget) return;
+        // Dragging pins the widget where it was dropped; repeated drags of one widget undo together
+        const pinned = { ...widget, x: Math.round(x * 100) / 100, y: Math.round(y * 100) / 100 };
+        execute({
+          label: `Перемещение «${widget.title}»`,
+          events: [{ type: 'widget.upsert', path, widget: pinned }],
+          mergeKey: `move:${[...path, widgetId].join('/')}`,
+        });
+      },
+      onConnectWidgets: (from, to) => {
+        // An upsert would replace the existing connection and lose its label, weight and schema
+        if (universe.connections.some(c => c.from === from && c.to === to)) return;
+        execute({
+          label: `Связь ${titleOf(universe, from)} → ${titleOf(universe, to)}`,
+          events: [{ type: 'connection.upsert', path, connection: { from, to, type: connectionType } }],
+        });
+      },
+    };
+  }, [editMode, activeLevel, connectionType, execute]);
+
+  const handleAddWidget = useCallback((template: WidgetTemplate) => {
+    if (!activeLevel) return;
+    const widget = createWidget(template, activeLevel.universe.widgets);
+    execute({ label: `Новый виджет «${widget.title}»`, events: [{ type: 'widget.upsert', path: activeLevel.path, widget }] });
+  }, [activeLevel, execute]);
+
+  const handleDeleteWidget = useCallback((widgetId: string) => {
+    if (!activeLevel) return;
+    const widget = activeLevel.universe.widgets.find(w => w.id === widgetId);
+    if (!widget) return;
+    execute({ label: `Удаление «${widget.title}»`, events: [{ type: 'widget.remove', path: activeLevel.path, id: widgetId }] });
+  }, [activeLevel, execute]);
+
+  // The inspector opens whenever a widget is selected; closing it keeps the selection.
+  // Widget and connection share the right edge, so only one inspector is open.
+  const selectedWidget = navigation?.selectedWidget ?? null;
+  useEffect(() => {
+    if (!selectedWidget) return;
+    setIsInspectorOpen(true);
+    setSelectedConnection(null);
+  }, [selectedWidget]);
+  const inspectedWidget = activeLevel?.universe.widgets.find(w => w.id === selectedWidget);
+
+  const handleInspectorChange = useCallback((widget: Widget) => {
+    if (!activeLevel) return;
+    execute({
+      label: `Свойства «${widget.title}»`,
+      events: [{ type: 'widget.upsert', path: activeLevel.path, widget }],
+      mergeKey: `inspect:${[...activeLevel.path, widget.id].join('/')}`,
+    });
+  }, [activeLevel, execute]);
+
+  const handleAddConnection = useCallback((connection: Connection) => {
+    if (!activeLevel) return;
+    execute({
+      label: `Связь ${titleOf(activeLevel.universe, connection.from)} → ${titleOf(activeLevel.universe, connection.to)}`,
+      events: [{ type: 'connection.upsert', path: activeLevel.path, connection }],
+    });
+  }, [activeLevel, execute]);
+
+  const handleRemoveConnection = useCallback(({ from, to }: Connection) => {
+    if (!activeLevel) return;
+    execute({
+      label: `Удаление связи ${titleOf(activeLevel.universe, from)} → ${titleOf(activeLevel.universe, to)}`,
+      events: [{ type: 'connection.remove', path: activeLevel.path, from, to }],
+    });
+  }, [activeLevel, execute]);
+
+  const handleSelectConnection = useCallback((connection: Connection | null) => {
+    setSelectedConnection(connection && connectionKey(connection));
+    if (connection) setIsInspectorOpen(false);
+  }, []);
+  const inspectedConnection = activeLevel?.universe.connections.find(c => connectionKey(c) === selectedConnection);
+
+  const handleConnectionChange = useCallback((connection: Connection) => {
+    if (!activeLevel) return;
+    execute({
+      label: `Свойства связи ${titleOf(activeLevel.universe, connection.from)} → ${titleOf(activeLevel.universe, connection.to)}`,
+      events: [{ type: 'connection.upsert', path: activeLevel.path, connection }],
+      mergeKey: `inspect:${activeLevel.path.join('/')}/${connectionKey(connection)}`,
+    });
+  }, [activeLevel, execute]);
+
+  // Reversing is a removal and an insert at the same place in the list
+  const handleReverseConnection = useCallback((connection: Connection) => {
+    if (!activeLevel) return;
+    const { path, universe } = activeLevel;
+    const reversed = { ...connection, from: connection.to, to: connection.from };
+    execute({
+      label: `Разворот связи ${titleOf(universe, connection.from)} → ${titleOf(universe, connection.to)}`,
+      events: [
+        { type: 'connection.remove', path, from: connection.from, to: connection.to },
+        { type: 'connection.upsert', path, connection: reversed, index: universe.connections.indexOf(connection) },
+      ],
+    });
+    setSelectedConnection(connectionKey(reversed));
+  }, [activeLevel, execute]);
+
+  // A reset cannot be undone: the history starts over from the starting document
+  const handleResetEdits = useCallback(() => {
+    clearStoredUniverse();
+    clearHistory();
+    setEditedDocument(null);
+    setStreamed((prev) => ({ ...prev, document: STARTING_UNIVERSE }));
+  }, [clearHistory]);
+
+  // Delete / Backspace removes the selected widget in edit mode
+  useEffect(() => {
+    if (!editMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, [contenteditable="true"]')) return;
+      const selected = navigationRef.current?.selectedWidget;
+      if (selected) handleDeleteWidget(selected);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editMode, handleDeleteWidget]);
+
+  // Ctrl+Z undoes an edit, Ctrl+Shift+Z and Ctrl+Y redo it; text fields keep their own undo
+  useEffect(() => {
+    if (!editMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, [contenteditable="true"]')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) undo();
+      else if ((key === 'z' && event.shiftKey) || key === 'y') redo();
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editMode, undo, redo]);
+
+  const handlePickWidget = pathQuery ? handlePickPathWidget : impactMode ? handlePickFailedWidget : undefined;
+
+  const handleCameraChange = useCallback((camera: [number, number, number]) => {
+    setRoute({ ...routeRef.current, camera }, { replace: true });
+  }, [setRoute]);
+
+  // Connection types and priorities hidden in the legends live in the link
+  const handleToggleLegendEntry = useCallback((entry: LegendEntry) => {
+    const current = routeRef.current;
+    setRoute({ ...current, hidden: toggleLegendEntry(current.hidden, entry) }, { replace: true });
+  }, [setRoute]);
 
   const handleTogglePause = useCallback(() => {
     setIsPaused((prev) => !prev);
@@ -19,6 +333,35 @@ export const NetworkVisualization = () => {
     setIsPaused(false);
   }, []);
 
+  const handleToggleLayout = useCallback(() => {
+    setLayoutMode((prev) => (prev === 'force' ? 'layered' : 'force'));
+  }, []);
+
+  const handleToggleFocusLayout = useCallback(() => {
+    setFocusLayout((prev) => !prev);
+  }, []);
+
+  // Ctrl+K / Cmd+K opens the search across every level
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        setIsSearchOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleOpenSearch = useCallback(() => {
+    setIsSearchOpen(true);
+  }, []);
+
+  const handleSearchSelect = useCallback((location: WidgetLocation) => {
+    setIsSearchOpen(false);
+    navigationRef.current?.flyToWidget(location.path, location.widget.id);
+  }, []);
+
   const handleFullscreen = useCallback(() => {
     if (!containerRef.current) return;
     
@@ -70,6 +413,9 @@ export const NetworkVisualization = () => {
         </p>
       </div>
 
+      {/* Dive path */}
+      {navigation && navigation.depth > 0 && <UniverseBreadcrumbs navigation={navigation} />}
+
       {/* 3D Canvas */}
       <Canvas
         camera={{ position: [0, 0, 1.2], fov: 50 }}
@@ -81,15 +427,31 @@ export const NetworkVisualization = () => {
         }}
       >
         <color attach="background" args={['#1C1C1C']} />
-        <FractalScene
-          isPaused={isPaused}
-          onReset={handleReset}
-          resetTrigger={resetTrigger}
-          onDepthChange={(depth, goBack) => {
-            setCanGoBack(depth > 0);
-            goBackRef.current = goBack;
-          }}
-        />
+        {/* The scene mounts once the font glyphs are ready */}
+        {fontsReady && (
+          <FractalScene
+            universe={streamed.document}
+            liveMetrics={streamed.metrics}
+            editor={editor}
+            selectedConnection={selectedConnection}
+            onSelectConnection={handlePickWidget ? undefined : handleSelectConnection}
+            layoutMode={layoutMode}
+            focusLayout={focusLayout}
+            legendFilter={route.hidden}
+            onToggleLegendEntry={handleToggleLegendEntry}
+            pathHighlight={pathHighlight}
+            impact={impact}
+            onPickWidget={handlePickWidget}
+            isPaused={isPaused}
+            onReset={handleReset}
+            resetTrigger={resetTrigger}
+            initialPath={initialRoute.path}
+            initialSelection={initialRoute.select}
+            initialCamera={initialRoute.camera}
+            onNavigationChange={setNavigation}
+            onCameraChange={handleCameraChange}
+          />
+        )}
       </Canvas>
 
       {/* Controls - minimal 3B1B style */}
@@ -98,8 +460,92 @@ export const NetworkVisualization = () => {
         onTogglePause={handleTogglePause}
         onReset={handleReset}
         onFullscreen={handleFullscreen}
-        canGoBack={canGoBack}
-        onGoBack={() => goBackRef.current?.()}
+        canGoBack={navigation?.canGoBack}
+        onGoBack={navigation?.goBack}
+        canGoForward={navigation?.canGoForward}
+        onGoForward={navigation?.goForward}
+        layoutMode={layoutMode}
+        onToggleLayout={editMode ? undefined : handleToggleLayout}
+        focusLayout={focusLayout}
+        onToggleFocusLayout={handleToggleFocusLayout}
+        onOpenSearch={handleOpenSearch}
+        pathMode={pathQuery !== null}
+        onTogglePathMode={handleTogglePathMode}
+        impactMode={impactMode}
+        onToggleImpactMode={handleToggleImpactMode}
+        editMode={editMode}
+        onToggleEditMode={handleToggleEditMode}
+      />
+
+      {/* Route between two widgets */}
+      {pathQuery && activeLevel && (
+        <PathPanel
+          universe={activeLevel.universe}
+          query={pathQuery}
+          highlight={pathHighlight}
+          onChange={setPathQuery}
+          onClose={handleTogglePathMode}
+        />
+      )}
+
+      {/* Blast radius of a failed widget */}
+      {impactMode && activeLevel && (
+        <ImpactPanel universe={activeLevel.universe} impact={impact} onClose={handleToggleImpactMode} />
+      )}
+
+      {/* Graph editor */}
+      {editMode && activeLevel && (
+        <EditorPanel
+          universe={activeLevel.universe}
+          selectedWidget={selectedWidget}
+          isShifted={(isInspectorOpen && !!inspectedWidget) || !!inspectedConnection}
+          connectionType={connectionType}
+          onConnectionTypeChange={setConnectionType}
+          onAddWidget={handleAddWidget}
+          onDeleteWidget={handleDeleteWidget}
+          isEdited={isEdited}
+          onResetEdits={handleResetEdits}
+          onClose={handleToggleEditMode}
+        />
+      )}
+
+      {/* Undo / redo */}
+      {editMode && <HistoryPanel history={history} onUndo={undo} onRedo={redo} onGoTo={goTo} />}
+
+      {/* Selected widget properties */}
+      {activeLevel && (
+        <WidgetInspector
+          universe={activeLevel.universe}
+          widget={inspectedWidget}
+          open={isInspectorOpen}
+          onOpenChange={setIsInspectorOpen}
+          readOnly={!editMode}
+          onChange={handleInspectorChange}
+          onAddConnection={handleAddConnection}
+          onRemoveConnection={handleRemoveConnection}
+        />
+      )}
+
+      {/* Picked connection */}
+      {activeLevel && (
+        <ConnectionInspector
+          universe={activeLevel.universe}
+          connection={inspectedConnection}
+          readOnly={!editMode}
+          onClose={() => setSelectedConnection(null)}
+          onChange={handleConnectionChange}
+          onReverse={handleReverseConnection}
+          onRemove={handleRemoveConnection}
+        />
+      )}
+
+      <StreamStatusIndicator status={streamStatus} />
+
+      <WidgetSearch
+        universe={streamed.document}
+        open={isSearchOpen}
+        onOpenChange={setIsSearchOpen}
+        onSelect={handleSearchSelect}
       />
 
       {/* Instructions */}
@@ -0,0 +1,96 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import type { ConnectionType, PathHighlight, PathQuery, UniverseDocument } from './types';
+
+interface PathPanelProps {
+  universe: UniverseDocument;
+  query: PathQuery;
+  highlight: PathHighlight | null;
+  onChange: (query: PathQuery) => void;
+  onClose: () => void;
+}
+
+// Path mode options and result; the ends themselves are picked by clicking widgets in the scene
+export const PathPanel = ({ universe, query, highlight, onChange, onClose }: PathPanelProps) => {
+  const titleOf = (id: string | null) => universe.widgets.find(w => w.id === id)?.title ?? id;
+  const types = Object.keys(universe.styles) as ConnectionType[];
+
+  const enabledTypes = query.types.length === 0 ? types : query.types;
+
+  const toggleType = (type: ConnectionType) => {
+    const next = enabledTypes.includes(type) ? enabledTypes.filter(t => t !== type) : [...enabledTypes, type];
+    // At least one type stays usable; all of them collapse back to "any"
+    if (next.length === 0) return;
+    onChange({ ...query, types: next.length === types.length ? [] : next });
+  };
+
+  const status = !query.source
+    ? 'Выберите начальный виджет'
+    : !query.target
+      ? 'Выберите конечный виджет'
+      : highlight?.steps
+        ? `Переходов: ${highlight.steps.length}`
+        : 'Пути нет';
+
+  return (
+    <div
+      className="absolute top-8 right-8 z-10 w-64 px-4 py-3 rounded-lg space-y-3"
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-[14px]" style={{ color: '#58C4DD' }}>Маршрут</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-6 w-6 rounded-md hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.7)' }}
+        >
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <div className="text-[13px] font-light space-y-1 text-white/80">
+        <div>От: <span className="text-white">{titleOf(query.source) ?? '—'}</span></div>
+        <div>До: <span className="text-white">{titleOf(query.target) ?? '—'}</span></div>
+        <div className="text-[12px]" style={{ color: 'rgba(88, 196, 221, 0.7)' }}>{status}</div>
+      </div>
+
+      {/* Connection types the route may follow */}
+      <div className="flex flex-wrap gap-1.5">
+        {types.map((type) => {
+          const isOn = enabledTypes.includes(type);
+          return (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggleType(type)}
+              className="px-2 py-0.5 rounded text-[11px] transition-opacity"
+              style={{
+                color: universe.styles[type].color,
+                border: `1px solid ${universe.styles[type].color}`,
+                opacity: isOn ? 1 : 0.35,
+              }}
+            >
+              {universe.styles[type].label}
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center justify-between text-[12px] font-light text-white/70">
+        Учитывать направление
+        <Switch
+          checked={query.directed}
+          onCheckedChange={(directed) => onChange({ ...query, directed })}
+          className="data-[state=checked]:bg-[#58C4DD]"
+        />
+      </label>
+    </div>
+  );
+};
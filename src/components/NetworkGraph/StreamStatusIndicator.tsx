@@ -0,0 +1,36 @@
+import type { StreamStatus } from './stream';
+
+const STATUS_VIEW: Record<Exclude<StreamStatus['state'], 'off'>, { color: string; label: string }> = {
+  connecting: { color: '#E8B923', label: 'Подключение к потоку' },
+  open: { color: '#83C167', label: 'Поток подключён' },
+  reconnecting: { color: '#FC6255', label: 'Поток недоступен' },
+};
+
+// Live stream state in the bottom-right corner; nothing is shown when the document has no stream
+export const StreamStatusIndicator = ({ status }: { status: StreamStatus }) => {
+  if (status.state === 'off') return null;
+  const { color, label } = STATUS_VIEW[status.state];
+
+  return (
+    <div
+      className="absolute bottom-8 right-8 z-10 flex items-center gap-2 px-3 py-1.5 rounded-lg pointer-events-none"
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+      role="status"
+    >
+      <span
+        className={`h-2 w-2 rounded-full ${status.state === 'open' ? '' : 'animate-pulse'}`}
+        style={{ background: color }}
+      />
+      <span className="text-[12px] font-light text-white/70">{label}</span>
+      {status.state === 'reconnecting' && (
+        <span className="text-[11px]" style={{ color: 'rgba(88, 196, 221, 0.7)' }}>
+          {`повтор через ${Math.ceil(status.delay / 1000)} с, попытка ${status.attempt}`}
+        </span>
+      )}
+    </div>
+  );
+};
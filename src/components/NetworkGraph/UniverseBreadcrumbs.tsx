@@ -0,0 +1,53 @@
+import { Fragment } from 'react';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import type { UniverseNavigation } from './FractalScene';
+
+interface UniverseBreadcrumbsProps {
+  navigation: UniverseNavigation;
+}
+
+export const UniverseBreadcrumbs = ({ navigation }: UniverseBreadcrumbsProps) => {
+  // Only the dive path up to the active level, not the forward history
+  const crumbs = navigation.levels.slice(0, navigation.depth + 1);
+
+  return (
+    <Breadcrumb
+      className="absolute top-8 left-8 z-10 px-4 py-2 rounded-lg"
+      style={{
+        background: 'rgba(40, 40, 40, 0.8)',
+        border: '1px solid rgba(88, 196, 221, 0.2)',
+        fontFamily: '"CMU Serif", Georgia, serif',
+      }}
+    >
+      <BreadcrumbList className="text-[13px] font-light tracking-[0.02em]">
+        {crumbs.map((level, depth) => (
+          <Fragment key={level.path.join('/')}>
+            {depth > 0 && <BreadcrumbSeparator style={{ color: 'rgba(88, 196, 221, 0.4)' }} />}
+            <BreadcrumbItem>
+              {depth === navigation.depth ? (
+                <BreadcrumbPage style={{ color: '#58C4DD' }}>{level.title}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <button
+                    type="button"
+                    onClick={() => navigation.jumpTo(depth)}
+                    className="text-white/60 hover:text-white"
+                  >
+                    {level.title}
+                  </button>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
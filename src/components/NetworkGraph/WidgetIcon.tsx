@@ -0,0 +1,60 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { FadeMaterial, FadeText } from './Fade';
+import { resolveIcon } from './iconRegistry';
+
+const TEXTURE_SIZE = 128;
+
+// One texture per icon and color, shared by every widget that shows it
+const textureCache = new Map<string, THREE.CanvasTexture>();
+
+// Rasterizes SVG markup onto a canvas; the texture fills in once the image has decoded
+const svgTexture = (markup: string) => {
+  const cached = textureCache.get(markup);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  const image = new Image();
+  image.onload = () => {
+    canvas.getContext('2d')?.drawImage(image, 0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+    texture.needsUpdate = true;
+  };
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+
+  textureCache.set(markup, texture);
+  return texture;
+};
+
+interface WidgetIconProps {
+  icon: string;
+  color: string;
+  size: number;
+  position?: [number, number, number];
+  opacity?: number;
+}
+
+// Vector icons render as a textured plane, emoji fall back to text
+export const WidgetIcon = ({ icon, color, size, position, opacity = 1 }: WidgetIconProps) => {
+  const resolved = useMemo(() => resolveIcon(icon, color), [icon, color]);
+  const texture = useMemo(() => (resolved.kind === 'svg' ? svgTexture(resolved.markup) : null), [resolved]);
+
+  if (!texture) {
+    return (
+      <FadeText position={position} fontSize={size} anchorX="center" anchorY="middle" fillOpacity={opacity}>
+        {resolved.kind === 'emoji' ? resolved.text : ''}
+      </FadeText>
+    );
+  }
+
+  return (
+    <mesh position={position}>
+      <planeGeometry args={[size, size]} />
+      <FadeMaterial map={texture} opacity={opacity} depthWrite={false} toneMapped={false} />
+    </mesh>
+  );
+};
@@ -0,0 +1,333 @@
+import { useState } from 'react';
+import { useFieldArray } from 'react-hook-form';
+import { z } from 'zod';
+import { Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { FIELD_CLASS, InspectorSheet, LABEL_CLASS, MENU_CLASS, ReadOnlyHint } from './InspectorSheet';
+import { useLiveForm } from './useLiveForm';
+import { hexColor, iconSchema, miniWidgetSchema, prioritySchema } from './universeSchema';
+import type { Connection, ConnectionType, MiniWidget, Priority, UniverseDocument, Widget } from './types';
+
+// Form side of a widget: optional text fields are edited as empty strings
+interface InspectorValues {
+  title: string;
+  subtitle: string;
+  icon: string;
+  priority: Priority;
+  infoLoad: number;
+  color: string;
+  miniWidgets: MiniWidget[];
+}
+
+const inspectorSchema = z.object({
+  title: z.string().min(1, 'Введите название'),
+  subtitle: z.string(),
+  icon: iconSchema,
+  priority: prioritySchema,
+  infoLoad: z.number().min(0).max(1),
+  color: hexColor,
+  miniWidgets: z.array(miniWidgetSchema),
+}) as z.ZodType<InspectorValues, z.ZodTypeDef, unknown>;
+
+const toValues = (widget: Widget): InspectorValues => ({
+  title: widget.title,
+  subtitle: widget.subtitle ?? '',
+  icon: widget.icon,
+  priority: widget.priority,
+  infoLoad: widget.infoLoad,
+  color: widget.color,
+  miniWidgets: widget.miniWidgets ?? [],
+});
+
+// Empty optional fields are left out of the document rather than stored blank
+const toWidget = (widget: Widget, values: InspectorValues): Widget => ({
+  ...widget,
+  ...values,
+  subtitle: values.subtitle || undefined,
+  miniWidgets: values.miniWidgets.length > 0 ? values.miniWidgets : undefined,
+});
+
+interface WidgetInspectorProps {
+  universe: UniverseDocument;
+  widget: Widget | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Outside edit mode the widget is only shown, since undo lives in edit mode
+  readOnly: boolean;
+  onChange: (widget: Widget) => void;
+  onAddConnection: (connection: Connection) => void;
+  onRemoveConnection: (connection: Connection) => void;
+}
+
+// Sheet for the selected widget; every valid change is applied as it is typed
+export const WidgetInspector = ({ universe, widget, open, onOpenChange, ...handlers }: WidgetInspectorProps) => (
+  <InspectorSheet open={open && !!widget} onOpenChange={onOpenChange}>
+    {widget && <InspectorBody key={widget.id} universe={universe} widget={widget} {...handlers} />}
+  </InspectorSheet>
+);
+
+type InspectorBodyProps = Omit<WidgetInspectorProps, 'open' | 'onOpenChange' | 'widget'> & { widget: Widget };
+
+const InspectorBody = ({ universe, widget, readOnly, onChange, onAddConnection, onRemoveConnection }: InspectorBodyProps) => {
+  const form = useLiveForm({ schema: inspectorSchema, source: widget, toValues, fromValues: toWidget, onChange });
+  const miniWidgets = useFieldArray({ control: form.control, name: 'miniWidgets' });
+
+  return (
+    <div className="space-y-5">
+      <SheetHeader>
+        <SheetTitle className="text-[16px] font-normal" style={{ color: '#58C4DD' }}>{widget.title}</SheetTitle>
+        <SheetDescription className="text-[12px] text-white/40">{widget.id}</SheetDescription>
+      </SheetHeader>
+      {readOnly && <ReadOnlyHint />}
+
+      <Form {...form}>
+        <form onSubmit={(event) => event.preventDefault()}>
+          <fieldset disabled={readOnly} className="min-w-0 space-y-4">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={LABEL_CLASS}>Название</FormLabel>
+                  <FormControl><Input className={FIELD_CLASS} {...field} /></FormControl>
+                  <FormMessage className="text-[11px]" />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="subtitle"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={LABEL_CLASS}>Подзаголовок</FormLabel>
+                  <FormControl><Input className={FIELD_CLASS} {...field} /></FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="icon"
+              render={({ field }) => (
+                <FormItem className="space-y-1">
+                  <FormLabel className={LABEL_CLASS}>Иконка</FormLabel>
+                  <FormControl><Input className={FIELD_CLASS} placeholder="lucide:cog, svg:имя или эмодзи" {...field} /></FormControl>
+                  <FormMessage className="text-[11px]" />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={LABEL_CLASS}>Приоритет</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className={FIELD_CLASS}><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent className={MENU_CLASS}>
+                        {prioritySchema.options.map((priority) => (
+                          <SelectItem key={priority} value={priority}>{universe.priorities[priority].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem className="space-y-1">
+                    <FormLabel className={LABEL_CLASS}>Цвет</FormLabel>
+                    <div className="flex gap-1.5">
+                      <input
+                        type="color"
+                        value={field.value}
+                        onChange={field.onChange}
+                        className="h-8 w-8 shrink-0 cursor-pointer rounded border border-white/15 bg-transparent"
+                      />
+                      <FormControl><Input className={FIELD_CLASS} {...field} /></FormControl>
+                    </div>
+                    <FormMessage className="text-[11px]" />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="infoLoad"
+              render={({ field }) => (
+                <FormItem className="space-y-2">
+                  <div className="flex justify-between">
+                    <FormLabel className={LABEL_CLASS}>Нагрузка</FormLabel>
+                    <span className="text-[12px] text-white/50">{Math.round(field.value * 100)}%</span>
+                  </div>
+                  <FormControl>
+                    <Slider
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      disabled={readOnly}
+                      value={[field.value]}
+                      onValueChange={([value]) => field.onChange(value)}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {/* Mini widgets orbiting the selected widget */}
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between">
+                <span className={LABEL_CLASS}>Мини-виджеты</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => miniWidgets.append({ icon: 'lucide:zap', label: 'Новый' })}
+                  className="h-6 w-6 rounded-md hover:bg-white/5"
+                  style={{ color: 'rgba(255,255,255,0.7)' }}
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              {miniWidgets.fields.map((item, i) => (
+                <div key={item.id} className="flex gap-1.5">
+                  <Input className={`${FIELD_CLASS} w-24`} {...form.register(`miniWidgets.${i}.icon`)} />
+                  <Input className={FIELD_CLASS} {...form.register(`miniWidgets.${i}.label`)} />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => miniWidgets.remove(i)}
+                    className="h-8 w-8 shrink-0 rounded-md hover:bg-white/5"
+                    style={{ color: 'rgba(255,255,255,0.5)' }}
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+        </form>
+      </Form>
+
+      <WidgetConnections
+        universe={universe}
+        widget={widget}
+        readOnly={readOnly}
+        onAddConnection={onAddConnection}
+        onRemoveConnection={onRemoveConnection}
+      />
+    </div>
+  );
+};
+
+type Direction = 'out' | 'in';
+
+type WidgetConnectionsProps = Pick<InspectorBodyProps, 'universe' | 'widget' | 'readOnly' | 'onAddConnection' | 'onRemoveConnection'>;
+
+// Incoming and outgoing connections under their type; new ones can point either way
+const WidgetConnections = ({ universe, widget, readOnly, onAddConnection, onRemoveConnection }: WidgetConnectionsProps) => {
+  const types = Object.keys(universe.styles) as ConnectionType[];
+  const [direction, setDirection] = useState<Direction>('out');
+  const [other, setOther] = useState('');
+  const [type, setType] = useState<ConnectionType>(types[0]);
+
+  const titleOf = (id: string) => universe.widgets.find(w => w.id === id)?.title ?? id;
+  const others = universe.widgets.filter(w => w.id !== widget.id);
+  // A pair has at most one connection each way, so widgets already connected in this direction are not offered
+  const candidates = others.filter(w => !universe.connections.some(c => (direction === 'out'
+    ? c.from === widget.id && c.to === w.id
+    : c.from === w.id && c.to === widget.id)));
+  const target = candidates.some(w => w.id === other) ? other : '';
+  const groups = types
+    .map((t) => ({
+      type: t,
+      outgoing: universe.connections.filter(c => c.type === t && c.from === widget.id),
+      incoming: universe.connections.filter(c => c.type === t && c.to === widget.id),
+    }))
+    .filter(group => group.outgoing.length + group.incoming.length > 0);
+
+  const handleAdd = () => {
+    if (!target) return;
+    onAddConnection(direction === 'out' ? { from: widget.id, to: target, type } : { from: target, to: widget.id, type });
+    setOther('');
+  };
+
+  const row = (connection: Connection, otherId: string, arrow: string) => (
+    <div key={`${connection.from}->${connection.to}`} className="flex items-center gap-2 text-[13px] font-light text-white/80">
+      <span className="w-4 text-white/40">{arrow}</span>
+      <span className="truncate">{titleOf(otherId)}</span>
+      {!readOnly && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onRemoveConnection(connection)}
+          className="ml-auto h-6 w-6 shrink-0 rounded-md hover:bg-white/5"
+          style={{ color: 'rgba(255,255,255,0.5)' }}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <span className={LABEL_CLASS}>Связи</span>
+      {groups.length === 0 && <div className="text-[12px] text-white/40">Связей нет</div>}
+      {groups.map(({ type: t, outgoing, incoming }) => (
+        <div key={t} className="space-y-1">
+          <div className="text-[12px]" style={{ color: universe.styles[t].color }}>{universe.styles[t].label}</div>
+          {outgoing.map(c => row(c, c.to, '→'))}
+          {incoming.map(c => row(c, c.from, '←'))}
+        </div>
+      ))}
+
+      {!readOnly && others.length > 0 && (
+        <div className="grid grid-cols-[auto_1fr] gap-1.5">
+          <Select value={direction} onValueChange={(value) => setDirection(value as Direction)}>
+            <SelectTrigger className={`${FIELD_CLASS} w-14`}><SelectValue /></SelectTrigger>
+            <SelectContent className={MENU_CLASS}>
+              <SelectItem value="out">→</SelectItem>
+              <SelectItem value="in">←</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={target} onValueChange={setOther}>
+            <SelectTrigger className={FIELD_CLASS}><SelectValue placeholder="Виджет" /></SelectTrigger>
+            <SelectContent className={MENU_CLASS}>
+              {candidates.map(w => <SelectItem key={w.id} value={w.id}>{w.title}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            disabled={!target}
+            onClick={handleAdd}
+            title="Добавить связь"
+            className="h-8 w-14 rounded-md hover:bg-white/5"
+            style={{ color: '#58C4DD' }}
+          >
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+          <Select value={type} onValueChange={(value) => setType(value as ConnectionType)}>
+            <SelectTrigger className={FIELD_CLASS}><SelectValue /></SelectTrigger>
+            <SelectContent className={MENU_CLASS}>
+              {types.map(t => <SelectItem key={t} value={t}>{universe.styles[t].label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
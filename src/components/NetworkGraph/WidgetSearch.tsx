@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import type { UniverseDocument } from './types';
+import { collectWidgets, type WidgetLocation } from './universe';
+
+interface WidgetSearchProps {
+  universe: UniverseDocument;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (location: WidgetLocation) => void;
+}
+
+// Command palette over every widget of every level, grouped by the level that shows it
+export const WidgetSearch = ({ universe, open, onOpenChange, onSelect }: WidgetSearchProps) => {
+  const groups = useMemo(() => {
+    const byLevel = new Map<string, WidgetLocation[]>();
+    collectWidgets(universe).forEach((location) => {
+      const key = location.path.join('/');
+      byLevel.set(key, [...(byLevel.get(key) ?? []), location]);
+    });
+    return [...byLevel.values()];
+  }, [universe]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="overflow-hidden p-0 [&>button]:hidden"
+        style={{
+          background: 'rgba(40, 40, 40, 0.95)',
+          border: '1px solid rgba(88, 196, 221, 0.2)',
+          fontFamily: '"CMU Serif", Georgia, serif',
+        }}
+      >
+        <DialogTitle className="sr-only">Поиск виджетов</DialogTitle>
+        <Command className="bg-transparent text-white [&_[cmdk-group-heading]]:text-[#58C4DD]/70 [&_[cmdk-input]]:h-12">
+          <CommandInput placeholder="Найти виджет..." />
+          <CommandList>
+            <CommandEmpty className="py-6 text-center text-sm text-white/50">Ничего не найдено</CommandEmpty>
+            {groups.map((locations) => (
+              <CommandGroup key={locations[0].path.join('/')} heading={locations[0].trail.join(' › ')}>
+                {locations.map((location) => {
+                  const { widget } = location;
+                  return (
+                    <CommandItem
+                      key={widget.id}
+                      // Unique per level; the id itself is searchable too
+                      value={[...location.path, widget.id].join('/')}
+                      keywords={[
+                        widget.title,
+                        widget.subtitle ?? '',
+                        ...(widget.miniWidgets ?? []).map((mini) => mini.label),
+                      ]}
+                      onSelect={() => onSelect(location)}
+                      className="gap-3 text-white/80 data-[selected=true]:bg-[#58C4DD]/15 data-[selected=true]:text-white"
+                    >
+                      <span className="h-2 w-2 shrink-0 rounded-full" style={{ background: widget.color }} />
+                      <span>{widget.title}</span>
+                      {widget.subtitle && <span className="ml-auto text-xs text-white/40">{widget.subtitle}</span>}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+};
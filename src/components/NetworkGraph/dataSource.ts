@@ -0,0 +1,42 @@
+import { useCallback, useMemo } from 'react';
+import { queryOptions, useQueries, useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { z } from 'zod';
+import { healthStatusSchema } from './universeSchema';
+import type { DataSource, Metrics, Widget } from './types';
+
+const DEFAULT_INTERVAL = 5000;
+
+const metricsSchema: z.ZodType<Metrics> = z.object({
+  infoLoad: z.number().min(0).max(1).optional(),
+  status: healthStatusSchema.optional(),
+});
+
+// Keyed by URL, so widgets and mini widgets bound to the same endpoint share one poll
+const metricsQuery = (source: DataSource) =>
+  queryOptions({
+    queryKey: ['metrics', source.url],
+    queryFn: async ({ signal }) => {
+      const response = await fetch(source.url, { signal });
+      if (!response.ok) throw new Error(`${source.url}: HTTP ${response.status}`);
+      return metricsSchema.parse(await response.json());
+    },
+    refetchInterval: source.interval ?? DEFAULT_INTERVAL,
+    staleTime: source.interval ?? DEFAULT_INTERVAL,
+    retry: 3,
+  });
+
+// Latest metrics of every bound widget by id. Until the first answer, and after
+// failed retries without earlier data, a widget simply keeps its document values.
+export const useUniverseMetrics = (widgets: Widget[]): Record<string, Metrics> => {
+  const bound = useMemo(() => widgets.filter((widget) => widget.source), [widgets]);
+  const combine = useCallback(
+    (results: UseQueryResult<Metrics>[]) =>
+      Object.fromEntries(bound.flatMap((widget, i) => (results[i].data ? [[widget.id, results[i].data]] : []))),
+    [bound]
+  );
+  return useQueries({ queries: bound.map((widget) => metricsQuery(widget.source)), combine });
+};
+
+// Metrics of a single mini widget, polled only while it is on screen
+export const useMetrics = (source: DataSource | undefined) =>
+  useQuery({ ...metricsQuery(source ?? { url: '' }), enabled: source !== undefined }).data;
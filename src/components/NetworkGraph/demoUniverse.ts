@@ -0,0 +1,43 @@
+import { DEFAULT_UNIVERSE } from './universe';
+import type { DataSource, StreamSource, UniverseDocument } from './types';
+
+// Endpoints of the mock servers in mock/; they only run under `vite serve`, so builds never point at them
+const CORE_SOURCE: DataSource = { url: '/api/metrics/lmm-core' };
+const MINI_SOURCES: Record<string, DataSource> = {
+  GPU: { url: '/api/metrics/gpu', interval: 2000 },
+  TPU: { url: '/api/metrics/tpu', interval: 2000 },
+  RAM: { url: '/api/metrics/ram', interval: 2000 },
+};
+// Ticks metrics, flips the status of a few widgets and adds and removes a probe widget
+const DEMO_STREAM: StreamSource = { url: '/api/stream' };
+
+// The default universe with the core and its mini widgets polling the mock metrics, fed by the mock stream
+const withDemoSources = (document: UniverseDocument): UniverseDocument => ({
+  ...document,
+  widgets: document.widgets.map((widget) => (widget.id === 'lmm-core'
+    ? {
+        ...widget,
+        source: CORE_SOURCE,
+        miniWidgets: widget.miniWidgets?.map((mini) => ({ ...mini, source: MINI_SOURCES[mini.label] ?? mini.source })),
+      }
+    : widget)),
+  stream: DEMO_STREAM,
+});
+
+const DEMO_URLS = new Set([DEMO_STREAM, CORE_SOURCE, ...Object.values(MINI_SOURCES)].map((source) => source.url));
+const dropDemoSource = <T extends { source?: DataSource }>(item: T): T =>
+  item.source && DEMO_URLS.has(item.source.url) ? { ...item, source: undefined } : item;
+
+// The same universe with every binding to the mock servers taken off again
+const withoutDemoSources = ({ stream, ...document }: UniverseDocument): UniverseDocument => ({
+  ...document,
+  ...(stream && !DEMO_URLS.has(stream.url) && { stream }),
+  widgets: document.widgets.map((widget) => ({ ...dropDemoSource(widget), miniWidgets: widget.miniWidgets?.map(dropDemoSource) })),
+});
+
+// In development every document the app shows is wired to the mock servers, and unwired again before it is saved
+export const withDemo = (document: UniverseDocument) => (import.meta.env.DEV ? withDemoSources(document) : document);
+export const withoutDemo = (document: UniverseDocument) => (import.meta.env.DEV ? withoutDemoSources(document) : document);
+
+// Document the app starts from
+export const STARTING_UNIVERSE = withDemo(DEFAULT_UNIVERSE);
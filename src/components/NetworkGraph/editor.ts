@@ -0,0 +1,35 @@
+import type { Priority, Widget } from './types';
+
+// Starting points the editor palette adds; everything but the id can be changed afterwards
+export interface WidgetTemplate {
+  title: string;
+  icon: string;
+  color: string;
+  priority: Priority;
+}
+
+export const WIDGET_TEMPLATES: WidgetTemplate[] = [
+  { title: 'Service', icon: 'lucide:cog', color: '#58C4DD', priority: 'high' },
+  { title: 'Storage', icon: 'lucide:database', color: '#9A72AC', priority: 'medium' },
+  { title: 'Analytics', icon: 'lucide:chart-column', color: '#83C167', priority: 'medium' },
+  { title: 'Task', icon: 'lucide:circle-check', color: '#E8B923', priority: 'low' },
+  { title: 'Alerts', icon: 'lucide:bell', color: '#FC6255', priority: 'low' },
+];
+
+// New widgets are left unpinned, so the layout finds them a free spot
+export const createWidget = (template: WidgetTemplate, widgets: Widget[]): Widget => {
+  const ids = new Set(widgets.map((w) => w.id));
+  const base = template.title.toLowerCase();
+  let n = 1;
+  while (ids.has(`${base}-${n}`)) n++;
+
+  return {
+    id: `${base}-${n}`,
+    title: n === 1 ? template.title : `${template.title} ${n}`,
+    icon: template.icon,
+    priority: template.priority,
+    infoLoad: 0,
+    color: template.color,
+    connects: [],
+  };
+};
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import { configureTextBuilder, preloadFont } from 'troika-three-text';
+import cmuSerifUrl from 'computer-modern/fonts/cmu-serif-500-roman.ttf?url';
+import cmuSansUrl from 'computer-modern/fonts/cmu-sans-serif-500-roman.ttf?url';
+import dejaVuSerifUrl from 'dejavu-fonts-ttf/ttf/DejaVuSerif.ttf?url';
+import type { NestedUniverse, UniverseDocument } from './types';
+
+// Fonts bundled with the app; troika would otherwise fetch its default font from a CDN
+export const FONTS = {
+  heading: cmuSerifUrl, // CMU Serif, the 3B1B look
+  body: cmuSansUrl, // CMU Sans Serif for widgets and legends
+  math: dejaVuSerifUrl, // DejaVu Serif for formulas: Greek, operators, super- and subscripts in one face
+} as const;
+
+export type FontRole = keyof typeof FONTS;
+
+// Glyphs missing from the CMU faces fall back to DejaVu Serif too, so troika never has to reach for its CDN
+configureTextBuilder({ defaultFontURL: dejaVuSerifUrl });
+
+const ASCII = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join('');
+const CYRILLIC = 'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯабвгдеёжзийклмнопрстуфхцчшщъыьэюя';
+const GREEK = 'ΑΒΓΔΘΛΞΠΣΦΨΩαβγδεζηθλμνξπρστφχψω';
+
+// Everything the scene labels use besides universe content
+const BASE_GLYPHS: Record<FontRole, string> = {
+  heading: ASCII + CYRILLIC + '—«»№·',
+  body: ASCII + CYRILLIC + '—«»№·',
+  math: ASCII + GREEK + '∇×∂∑∫√∞≈≠≤≥→±·ℏ²³ⁿₙ',
+};
+
+const collectUniverseText = (universe: NestedUniverse, headings: string[], body: string[]) => {
+  headings.push(universe.title, universe.subtitle ?? '');
+  universe.widgets.forEach((widget) => {
+    body.push(widget.title, widget.subtitle ?? '');
+    widget.miniWidgets?.forEach((mini) => body.push(mini.label));
+    if (widget.universe && typeof widget.universe !== 'string') {
+      collectUniverseText(widget.universe, headings, body);
+    }
+  });
+  universe.connections.forEach((connection) => body.push(connection.label ?? ''));
+  Object.values(universe.styles ?? {}).forEach((style) => body.push(style.label));
+  Object.values(universe.priorities ?? {}).forEach((priority) => body.push(priority.label));
+  body.push(universe.weightScale?.label ?? '');
+};
+
+const preloadRole = (role: FontRole, text: string) =>
+  new Promise<void>((resolve) => preloadFont({ font: FONTS[role], characters: text }, () => resolve()));
+
+// Renders every glyph the document can show into troika's SDF atlas
+export const preloadUniverseFonts = (document: UniverseDocument) => {
+  const headings: string[] = [];
+  const body: string[] = [];
+  collectUniverseText(document, headings, body);
+  Object.values(document.universes ?? {}).forEach((universe) => collectUniverseText(universe, headings, body));
+
+  return Promise.all([
+    preloadRole('heading', BASE_GLYPHS.heading + headings.join('')),
+    preloadRole('body', BASE_GLYPHS.body + body.join('')),
+    preloadRole('math', BASE_GLYPHS.math),
+  ]);
+};
+
+// False until the glyphs are ready, so text never pops in after the first frame
+export const useUniverseFonts = (document: UniverseDocument) => {
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    preloadUniverseFonts(document).then(() => {
+      if (!cancelled) setIsReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [document]);
+
+  return isReady;
+};
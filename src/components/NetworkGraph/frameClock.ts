@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+
+// Seconds of animation time; stands still while the scene is paused
+export interface FrameClock {
+  time: number;
+}
+
+// Entrance animation of a universe level, lerped by the scene every frame
+export interface LevelFade {
+  scale: number;
+  opacity: number;
+}
+
+// Both objects are mutated in place and read inside useFrame, so animating never re-renders React
+export const FrameClockContext = createContext<FrameClock>({ time: 0 });
+export const LevelFadeContext = createContext<LevelFade>({ scale: 1, opacity: 1 });
+
+export const useFrameClock = () => useContext(FrameClockContext);
+export const useLevelFade = () => useContext(LevelFadeContext);
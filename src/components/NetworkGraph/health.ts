@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import type { ConnectionType, HealthStatus, Metrics, UniverseDocument } from './types';
+
+interface HealthStyle {
+  label: string;
+  color: string; // status ring
+  desaturate: number; // 0-1, drained from the widget color
+  badge?: string;
+}
+
+export const HEALTH_STYLES: Record<HealthStatus, HealthStyle> = {
+  ok: { label: 'В норме', color: '#83C167', desaturate: 0 },
+  degraded: { label: 'Деградация', color: '#E8B923', desaturate: 0.4, badge: '!' },
+  down: { label: 'Отказ', color: '#FC6255', desaturate: 0.85, badge: '!' },
+  unknown: { label: 'Нет данных', color: '#888888', desaturate: 1, badge: '?' },
+};
+
+// Style of a status, falling back to "no data" for widgets nothing is reported about
+export const healthStyleOf = (status: HealthStatus | undefined) => HEALTH_STYLES[status] ?? HEALTH_STYLES.unknown;
+
+// Worse statuses win when several rules apply; no data ranks below any reported problem
+const SEVERITY: Record<HealthStatus, number> = { ok: 0, unknown: 1, degraded: 2, down: 3 };
+
+const DEPENDENCY_TYPES: ConnectionType[] = ['dependency', 'dataFlow'];
+
+const isAtLeast = (status: HealthStatus, threshold: HealthStatus) => SEVERITY[status] >= SEVERITY[threshold];
+
+// Reported statuses (live metrics first, then the document) with the universe's rules applied
+// until nothing changes. Rules only ever make a widget less healthy, so the loop always settles.
+export const computeHealth = (
+  universe: UniverseDocument,
+  metrics: Record<string, Metrics> = {}
+): Record<string, HealthStatus> => {
+  const health: Record<string, HealthStatus> = Object.fromEntries(
+    universe.widgets.map((w) => [w.id, metrics[w.id]?.status ?? w.status ?? 'ok'])
+  );
+  const priorityOf = Object.fromEntries(universe.widgets.map((w) => [w.id, w.priority]));
+  const rules = universe.healthRules ?? [];
+
+  let changed = rules.length > 0;
+  while (changed) {
+    changed = false;
+    universe.widgets.forEach((widget) => {
+      rules.forEach((rule) => {
+        const via = rule.via ?? DEPENDENCY_TYPES;
+        const dependencies = universe.connections
+          .filter((conn) => conn.to === widget.id && via.includes(conn.type))
+          .filter((conn) => !rule.priorities || rule.priorities.includes(priorityOf[conn.from]))
+          .map((conn) => health[conn.from]);
+        if (dependencies.length === 0) return;
+
+        const triggered = rule.match === 'any'
+          ? dependencies.some((status) => isAtLeast(status, rule.when))
+          : dependencies.every((status) => isAtLeast(status, rule.when));
+        if (!triggered || isAtLeast(health[widget.id], rule.then)) return;
+
+        health[widget.id] = rule.then;
+        changed = true;
+      });
+    });
+  }
+  return health;
+};
+
+// Widget color drained towards grey by its status
+export const healthColor = (color: string, status: HealthStatus | undefined) => {
+  const { desaturate } = healthStyleOf(status);
+  if (desaturate === 0) return color;
+  const base = new THREE.Color(color);
+  const { h, s, l } = base.getHSL({ h: 0, s: 0, l: 0 }, THREE.SRGBColorSpace);
+  return `#${base.setHSL(h, s * (1 - desaturate), l, THREE.SRGBColorSpace).getHexString()}`;
+};
@@ -0,0 +1,140 @@
+import { useCallback, useRef, useState } from 'react';
+import { applyStreamEvent, findLevel } from './stream';
+import type { StreamEvent, UniverseDocument } from './types';
+
+// Successive commands with the same merge key this close together become one entry
+const MERGE_WINDOW = 1500;
+const MAX_ENTRIES = 100;
+
+// Undoable document edit, described by the change events that make it
+export interface EditCommand {
+  label: string;
+  events: StreamEvent[];
+  // e.g. every drag of one widget, so nudging it around takes a single undo
+  mergeKey?: string;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  redo: StreamEvent[];
+  undo: StreamEvent[]; // in the order they are applied, newest change first
+  mergeKey?: string;
+  time: number;
+}
+
+// `past` ends with the latest applied entry, `future` starts with the next one to redo
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+// Events that take one event back, read from the document as it was before it
+const invertEvent = (document: UniverseDocument, event: StreamEvent): StreamEvent[] => {
+  const level = findLevel(document, event.path);
+  if (!level) return [];
+  const { path } = event;
+
+  switch (event.type) {
+    case 'widget.upsert': {
+      const previous = level.widgets.find(w => w.id === event.widget.id);
+      return previous
+        ? [{ type: 'widget.upsert', path, widget: previous }]
+        : [{ type: 'widget.remove', path, id: event.widget.id }];
+    }
+    case 'widget.remove': {
+      const index = level.widgets.findIndex(w => w.id === event.id);
+      if (index === -1) return [];
+      // The widget comes back in its old place, then whatever referred to it
+      return [
+        { type: 'widget.upsert', path, widget: level.widgets[index], index },
+        ...level.widgets
+          .filter(w => w.connects.includes(event.id))
+          .map((widget): StreamEvent => ({ type: 'widget.upsert', path, widget })),
+        ...level.connections.flatMap((connection, i): StreamEvent[] =>
+          connection.from === event.id || connection.to === event.id
+            ? [{ type: 'connection.upsert', path, connection, index: i }]
+            : []),
+      ];
+    }
+    case 'connection.upsert': {
+      const { from, to } = event.connection;
+      const previous = level.connections.find(c => c.from === from && c.to === to);
+      return previous
+        ? [{ type: 'connection.upsert', path, connection: previous }]
+        : [{ type: 'connection.remove', path, from, to }];
+    }
+    case 'connection.remove': {
+      const index = level.connections.findIndex(c => c.from === event.from && c.to === event.to);
+      return index === -1 ? [] : [{ type: 'connection.upsert', path, connection: level.connections[index], index }];
+    }
+    // Live values are not edits
+    default:
+      return [];
+  }
+};
+
+// Undo and redo over commands. Edits go through `execute`, which records how to take them back;
+// `apply` is how the caller changes its document, and it also receives the undo and redo events.
+export const useEditHistory = (document: UniverseDocument, apply: (events: StreamEvent[]) => void) => {
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  // Runs ahead of renders, so commands executed back to back see each other's changes
+  const documentRef = useRef(document);
+  documentRef.current = document;
+
+  const execute = useCallback(({ label, events, mergeKey }: EditCommand) => {
+    let current = documentRef.current;
+    const undo: StreamEvent[] = [];
+    events.forEach((event) => {
+      undo.unshift(...invertEvent(current, event));
+      current = applyStreamEvent({ document: current, metrics: {} }, event).document;
+    });
+    if (current === documentRef.current) return;
+    documentRef.current = current;
+    apply(events);
+
+    const time = Date.now();
+    setHistory(({ past }) => {
+      const last = past[past.length - 1];
+      if (mergeKey && last?.mergeKey === mergeKey && time - last.time < MERGE_WINDOW) {
+        const merged = { ...last, label, redo: [...last.redo, ...events], undo: [...undo, ...last.undo], time };
+        return { past: [...past.slice(0, -1), merged], future: [] };
+      }
+      const entry = { id: nextEntryId++, label, redo: events, undo, mergeKey, time };
+      return { past: [...past, entry].slice(-MAX_ENTRIES), future: [] };
+    });
+  }, [apply]);
+
+  // Moves through the history to the state after `position` applied entries
+  const goTo = useCallback((position: number) => {
+    const { past, future } = historyRef.current;
+    if (position === past.length || position < 0 || position > past.length + future.length) return;
+
+    const entries = [...past, ...future];
+    const events = position < past.length
+      ? past.slice(position).reverse().flatMap(entry => entry.undo)
+      : future.slice(0, position - past.length).flatMap(entry => entry.redo);
+    documentRef.current = events.reduce(applyStreamEvent, { document: documentRef.current, metrics: {} }).document;
+    apply(events);
+
+    const next = { past: entries.slice(0, position), future: entries.slice(position) };
+    historyRef.current = next;
+    setHistory(next);
+  }, [apply]);
+
+  const undo = useCallback(() => goTo(historyRef.current.past.length - 1), [goTo]);
+  const redo = useCallback(() => goTo(historyRef.current.past.length + 1), [goTo]);
+
+  const clear = useCallback(() => {
+    historyRef.current = EMPTY_HISTORY;
+    setHistory(EMPTY_HISTORY);
+  }, []);
+
+  return { history, execute, undo, redo, goTo, clear };
+};
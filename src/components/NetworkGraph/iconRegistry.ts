@@ -0,0 +1,117 @@
+import {
+  Bell,
+  Brain,
+  Calendar,
+  Camera,
+  ChartColumn,
+  CircleCheck,
+  CloudSun,
+  Cog,
+  Cpu,
+  Database,
+  Download,
+  Dumbbell,
+  Flame,
+  FolderOpen,
+  HardDrive,
+  Image,
+  Layers,
+  Library,
+  ListOrdered,
+  MemoryStick,
+  NotebookPen,
+  RefreshCw,
+  Search,
+  Settings,
+  Target,
+  TrendingUp,
+  Type,
+  Upload,
+  Users,
+  Zap,
+  type IconNode,
+  type SVGProps,
+} from 'lucide';
+import leninCoreSvg from './icons/lenin-core.svg?raw';
+
+// Widget icons are written as `lucide:<name>` or `svg:<name>`; any other string is drawn as emoji text
+export type ResolvedIcon = { kind: 'svg'; markup: string } | { kind: 'emoji'; text: string };
+
+// Only the icons listed here end up in the bundle
+const LUCIDE_ICONS: Record<string, IconNode> = {
+  bell: Bell,
+  brain: Brain,
+  calendar: Calendar,
+  camera: Camera,
+  'chart-column': ChartColumn,
+  'circle-check': CircleCheck,
+  'cloud-sun': CloudSun,
+  cog: Cog,
+  cpu: Cpu,
+  database: Database,
+  download: Download,
+  dumbbell: Dumbbell,
+  flame: Flame,
+  'folder-open': FolderOpen,
+  'hard-drive': HardDrive,
+  image: Image,
+  layers: Layers,
+  library: Library,
+  'list-ordered': ListOrdered,
+  'memory-stick': MemoryStick,
+  'notebook-pen': NotebookPen,
+  'refresh-cw': RefreshCw,
+  search: Search,
+  settings: Settings,
+  target: Target,
+  'trending-up': TrendingUp,
+  type: Type,
+  upload: Upload,
+  users: Users,
+  zap: Zap,
+};
+
+// Custom SVGs drawn with `currentColor`, so they take the widget color like lucide icons
+const CUSTOM_ICONS: Record<string, string> = {
+  'lenin-core': leninCoreSvg,
+};
+
+export const registerLucideIcon = (name: string, icon: IconNode) => {
+  LUCIDE_ICONS[name] = icon;
+};
+
+export const registerSvgIcon = (name: string, markup: string) => {
+  CUSTOM_ICONS[name] = markup;
+};
+
+const toAttributes = (attrs: SVGProps) => Object.entries(attrs).map(([key, value]) => ` ${key}="${value}"`).join('');
+
+// SVG markup straight from lucide's icon data, stroked in the given color
+const lucideMarkup = ([tag, attrs, children = []]: IconNode, color: string) =>
+  `<${tag}${toAttributes({ ...attrs, stroke: color })}>` +
+  children.map(([childTag, childAttrs]) => `<${childTag}${toAttributes(childAttrs)}/>`).join('') +
+  `</${tag}>`;
+
+const parseIconRef = (ref: string) => {
+  const match = /^(lucide|svg):(.+)$/.exec(ref);
+  return match ? { source: match[1] as 'lucide' | 'svg', name: match[2] } : null;
+};
+
+// Emoji pass as they are; prefixed references must name a registered icon
+export const isKnownIconRef = (ref: string) => {
+  const parsed = parseIconRef(ref);
+  if (!parsed) return true;
+  return parsed.source === 'lucide' ? parsed.name in LUCIDE_ICONS : parsed.name in CUSTOM_ICONS;
+};
+
+export const resolveIcon = (ref: string, color: string): ResolvedIcon => {
+  const parsed = parseIconRef(ref);
+  if (parsed?.source === 'lucide' && LUCIDE_ICONS[parsed.name]) {
+    return { kind: 'svg', markup: lucideMarkup(LUCIDE_ICONS[parsed.name], color) };
+  }
+  if (parsed?.source === 'svg' && CUSTOM_ICONS[parsed.name]) {
+    return { kind: 'svg', markup: CUSTOM_ICONS[parsed.name].replace(/currentColor/g, color) };
+  }
+  // Unknown references still show something instead of an empty widget
+  return { kind: 'emoji', text: parsed ? '?' : ref };
+};
@@ -0,0 +1,5 @@
+// Impact colors by hop distance from the failed widget, fading from red to yellow
+export const IMPACT_COLORS = ['#FC6255', '#F39C12', '#E8B923', '#F9F871'];
+
+// Everything further away than the palette reaches shares its last color
+export const impactColor = (hops: number) => IMPACT_COLORS[Math.min(hops, IMPACT_COLORS.length - 1)];
@@ -0,0 +1,23 @@
+import * as THREE from 'three';
+
+// Basic material whose instances fade independently through an `instanceOpacity` attribute.
+// The uniform opacity still applies on top, so a whole batch can follow its level fade.
+export const createInstancedFadeMaterial = () => {
+  const material = new THREE.MeshBasicMaterial({ transparent: true });
+  material.onBeforeCompile = (shader) => {
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceOpacity = instanceOpacity;');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nvarying float vInstanceOpacity;')
+      .replace('vec4 diffuseColor = vec4( diffuse, opacity );', 'vec4 diffuseColor = vec4( diffuse, opacity * vInstanceOpacity );');
+  };
+  return material;
+};
+
+// Opacity per instance, rewritten every frame
+export const createInstanceOpacity = (count: number) => {
+  const attribute = new THREE.InstancedBufferAttribute(new Float32Array(count).fill(1), 1);
+  attribute.setUsage(THREE.DynamicDrawUsage);
+  return attribute;
+};
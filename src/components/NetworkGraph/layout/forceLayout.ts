@@ -0,0 +1,100 @@
+import type { LayoutPosition, UniverseDocument } from '../types';
+import { collisionRadius, connectedPairs, type UniverseLayout } from './graph';
+
+interface ForceLayoutOptions {
+  iterations?: number;
+  linkDistance?: number;
+}
+
+interface SimNode extends LayoutPosition {
+  id: string;
+  radius: number;
+  pinned: boolean;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Deterministic force simulation: the same document always settles into the same layout
+export const computeForceLayout = (
+  universe: UniverseDocument,
+  { iterations = 300, linkDistance = 2.6 }: ForceLayoutOptions = {}
+): UniverseLayout => {
+  const nodes: SimNode[] = universe.widgets.map((widget, i) => {
+    const pinned = widget.x !== undefined && widget.y !== undefined;
+    // Unpinned widgets start on a sunflower spiral so no two share a spot
+    const r = 1.2 * Math.sqrt(i + 0.5);
+    return {
+      id: widget.id,
+      x: pinned ? widget.x : Math.cos(i * GOLDEN_ANGLE) * r,
+      y: pinned ? widget.y : Math.sin(i * GOLDEN_ANGLE) * r,
+      radius: collisionRadius(widget, universe.priorities),
+      pinned,
+    };
+  });
+
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const links = connectedPairs(universe).map(([from, to]) => [index.get(from), index.get(to)] as const);
+
+  const move = (node: SimNode, dx: number, dy: number) => {
+    if (node.pinned) return;
+    node.x += dx;
+    node.y += dy;
+  };
+
+  for (let step = 0; step < iterations; step++) {
+    const alpha = 1 - step / iterations;
+
+    // Repulsion between every pair
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const dx = b.x - a.x || 0.01;
+        const dy = b.y - a.y || 0.01;
+        const distSq = dx * dx + dy * dy;
+        const force = (alpha * 0.2) / distSq;
+        move(a, -dx * force, -dy * force);
+        move(b, dx * force, dy * force);
+      }
+    }
+
+    // Springs along connections
+    links.forEach(([i, j]) => {
+      const a = nodes[i];
+      const b = nodes[j];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const dist = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = ((dist - linkDistance) / dist) * alpha * 0.2;
+      move(a, dx * force, dy * force);
+      move(b, -dx * force, -dy * force);
+    });
+
+    // Gentle pull towards the origin keeps disconnected widgets on screen
+    nodes.forEach((node) => move(node, -node.x * 0.03 * alpha, -node.y * 0.03 * alpha));
+
+    // Widgets never overlap, whatever their priority size
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i];
+        const b = nodes[j];
+        const dx = b.x - a.x || 0.01;
+        const dy = b.y - a.y || 0.01;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        const overlap = a.radius + b.radius - dist;
+        if (overlap <= 0) continue;
+
+        const share = a.pinned || b.pinned ? 1 : 0.5;
+        const push = overlap / dist;
+        move(a, -dx * push * share, -dy * push * share);
+        move(b, dx * push * share, dy * push * share);
+      }
+    }
+  }
+
+  const positions = Object.fromEntries(nodes.map((node) => [
+    node.id,
+    { x: Math.round(node.x * 1000) / 1000, y: Math.round(node.y * 1000) / 1000 },
+  ]));
+  return { positions, routes: {}, backEdges: [] };
+};
@@ -0,0 +1,124 @@
+import type { Connection, ConnectionType, ImpactAnalysis, LayoutPosition, PathStep, PriorityStyle, Priority, UniverseDocument, Widget } from '../types';
+
+export type LayoutMode = 'force' | 'layered';
+
+export type WidgetPositions = Record<string, LayoutPosition>;
+
+export interface UniverseLayout {
+  positions: WidgetPositions;
+  // Intermediate points for connections that cross several layers, by connection key
+  routes: Record<string, LayoutPosition[]>;
+  // Connections that close a cycle and run against the layout direction
+  backEdges: string[];
+}
+
+// Identity of a connection; ids may contain any character, so they are quoted rather than joined
+export const connectionKey = (conn: Connection) => JSON.stringify([conn.from, conn.to]);
+
+// Side of a low-priority widget card; priority scales multiply it
+export const WIDGET_BASE_SIZE = 0.8;
+
+// Spacing kept between neighbouring cards
+const WIDGET_PADDING = 0.25;
+
+// Circle that encloses the card plus padding
+export const collisionRadius = (widget: Widget, priorities: Record<Priority, PriorityStyle>) =>
+  (WIDGET_BASE_SIZE * priorities[widget.priority].scale * Math.SQRT2) / 2 + WIDGET_PADDING;
+
+// Undirected widget pairs linked by a connection or a `connects` entry, without duplicates
+export const connectedPairs = (universe: UniverseDocument): [string, string][] => {
+  const seen = new Set<string>();
+  const pairs: [string, string][] = [];
+  const add = (a: string, b: string) => {
+    if (a === b) return;
+    const key = a < b ? `${a}|${b}` : `${b}|${a}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    pairs.push([a, b]);
+  };
+
+  universe.connections.forEach((conn) => add(conn.from, conn.to));
+  universe.widgets.forEach((widget) => widget.connects.forEach((id) => add(widget.id, id)));
+  return pairs;
+};
+
+// Hop count from one widget to every widget reachable through connections (BFS)
+export const hopDistances = (universe: UniverseDocument, fromId: string): Map<string, number> => {
+  const neighbours = new Map<string, string[]>(universe.widgets.map((w) => [w.id, []]));
+  connectedPairs(universe).forEach(([a, b]) => {
+    neighbours.get(a)?.push(b);
+    neighbours.get(b)?.push(a);
+  });
+
+  const hops = new Map([[fromId, 0]]);
+  const queue = [fromId];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    neighbours.get(id)?.forEach((next) => {
+      if (hops.has(next)) return;
+      hops.set(next, hops.get(id) + 1);
+      queue.push(next);
+    });
+  }
+  return hops;
+};
+
+// Fewest-hop route over the connections (BFS); `types` limits which connections may be used
+export const shortestPath = (
+  universe: UniverseDocument,
+  fromId: string,
+  toId: string,
+  { types = [], directed = false }: { types?: ConnectionType[]; directed?: boolean } = {}
+): PathStep[] | null => {
+  const usable = universe.connections.filter((conn) => types.length === 0 || types.includes(conn.type));
+  // Step that first reached each widget
+  const reachedBy = new Map<string, PathStep | null>([[fromId, null]]);
+  const queue = [fromId];
+  while (queue.length > 0 && !reachedBy.has(toId)) {
+    const id = queue.shift();
+    usable.forEach((connection) => {
+      const forward = connection.from === id;
+      if (!forward && (directed || connection.to !== id)) return;
+      const next = forward ? connection.to : connection.from;
+      if (reachedBy.has(next)) return;
+      reachedBy.set(next, { connection, reversed: !forward });
+      queue.push(next);
+    });
+  }
+  if (!reachedBy.has(toId)) return null;
+
+  const steps: PathStep[] = [];
+  for (let step = reachedBy.get(toId); step; ) {
+    steps.unshift(step);
+    step = reachedBy.get(step.reversed ? step.connection.to : step.connection.from);
+  }
+  return steps;
+};
+
+// Connections a failure travels along, from the widget that fails to the ones relying on it
+const IMPACT_TYPES: ConnectionType[] = ['dependency', 'dataFlow'];
+
+// Everything downstream of a failed widget, following connections in their direction (BFS)
+export const downstreamImpact = (
+  universe: UniverseDocument,
+  failedId: string,
+  types: ConnectionType[] = IMPACT_TYPES
+): ImpactAnalysis => {
+  const usable = universe.connections.filter((conn) => types.includes(conn.type));
+  const widgets = new Map([[failedId, 0]]);
+  const connections = new Map<string, number>();
+  const queue = [failedId];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    const hops = widgets.get(id) + 1;
+    usable.forEach((conn) => {
+      if (conn.from !== id) return;
+      // Edges into an already affected widget still carry the failure
+      if (!connections.has(connectionKey(conn))) connections.set(connectionKey(conn), hops);
+      if (widgets.has(conn.to)) return;
+      widgets.set(conn.to, hops);
+      queue.push(conn.to);
+    });
+  }
+  return { failed: failedId, widgets, connections };
+};
@@ -0,0 +1,48 @@
+import type { Connection, PlacedWidget, UniverseDocument, Widget } from '../types';
+import { computeForceLayout } from './forceLayout';
+import { computeLayeredLayout } from './layeredLayout';
+import { computeRadialLayout } from './radialLayout';
+import type { LayoutMode, UniverseLayout, WidgetPositions } from './graph';
+
+export {
+  WIDGET_BASE_SIZE,
+  connectionKey,
+  downstreamImpact,
+  hopDistances,
+  shortestPath,
+  type LayoutMode,
+  type UniverseLayout,
+  type WidgetPositions,
+} from './graph';
+export { LAYOUT_FRAME_PRIORITY, useAnimatedLayout, type AnimatedLayout } from './useAnimatedLayout';
+
+const LAYOUT_ENGINES: Record<LayoutMode, (universe: UniverseDocument) => UniverseLayout> = {
+  force: computeForceLayout,
+  layered: computeLayeredLayout,
+};
+
+// Keyed by the widget list so re-resolved copies of the same universe share a layout
+const layoutCache = new WeakMap<Widget[], { connections: Connection[]; layouts: Record<string, UniverseLayout> }>();
+
+// With a focus widget the selected mode is replaced by the radial ego-network around it
+export const layoutUniverse = (
+  universe: UniverseDocument,
+  mode: LayoutMode = 'force',
+  focus: string | null = null
+): UniverseLayout => {
+  let cached = layoutCache.get(universe.widgets);
+  if (!cached || cached.connections !== universe.connections) {
+    cached = { connections: universe.connections, layouts: {} };
+    layoutCache.set(universe.widgets, cached);
+  }
+
+  cached.layouts[mode] ??= LAYOUT_ENGINES[mode](universe);
+  if (!focus || !universe.widgets.some((w) => w.id === focus)) return cached.layouts[mode];
+
+  const key = `${mode}:${focus}`;
+  cached.layouts[key] ??= computeRadialLayout(universe, focus, cached.layouts[mode]);
+  return cached.layouts[key];
+};
+
+export const placeWidgets = (universe: UniverseDocument, positions: WidgetPositions): PlacedWidget[] =>
+  universe.widgets.map((widget) => ({ ...widget, ...positions[widget.id] }));
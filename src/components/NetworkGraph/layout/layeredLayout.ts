@@ -0,0 +1,169 @@
+import type { Connection, ConnectionType, LayoutPosition, UniverseDocument } from '../types';
+import { WIDGET_BASE_SIZE, connectionKey, type UniverseLayout } from './graph';
+
+interface LayeredLayoutOptions {
+  // Connection types that define the flow; the others are drawn but do not affect ranks
+  types?: ConnectionType[];
+  layerSpacing?: number;
+  gap?: number;
+  sweeps?: number;
+}
+
+// Edge between adjacent layers, after long edges were split by dummy nodes
+interface Segment {
+  upper: string;
+  lower: string;
+}
+
+const DUMMY_WIDTH = 0.3;
+
+const countCrossings = (segments: Segment[], order: Map<string, number>) => {
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      const upper = order.get(segments[i].upper) - order.get(segments[j].upper);
+      const lower = order.get(segments[i].lower) - order.get(segments[j].lower);
+      if (upper * lower < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+// Sugiyama-style layout: break cycles, rank, order layers by barycenter, then assign coordinates.
+// Pinned coordinates are ignored here, the hierarchy decides every position.
+export const computeLayeredLayout = (
+  universe: UniverseDocument,
+  {
+    types = ['logicChain', 'dependency'],
+    layerSpacing = 1.9,
+    gap = 0.6,
+    sweeps = 8,
+  }: LayeredLayoutOptions = {}
+): UniverseLayout => {
+  const ids = universe.widgets.map((w) => w.id);
+  const directed = universe.connections.filter((c) => types.includes(c.type) && c.from !== c.to);
+
+  // 1. Cycle removal: an edge back into the DFS stack closes a cycle
+  const outgoing = new Map<string, Connection[]>(ids.map((id) => [id, []]));
+  directed.forEach((c) => outgoing.get(c.from).push(c));
+
+  const visited = new Map<string, 'active' | 'done'>();
+  const backEdges = new Set<Connection>();
+  const visit = (id: string) => {
+    visited.set(id, 'active');
+    outgoing.get(id).forEach((c) => {
+      const state = visited.get(c.to);
+      if (state === 'active') backEdges.add(c);
+      else if (!state) visit(c.to);
+    });
+    visited.set(id, 'done');
+  };
+  ids.forEach((id) => {
+    if (!visited.has(id)) visit(id);
+  });
+
+  // Back edges are reversed for ranking so the graph becomes acyclic
+  const edges = directed.map((conn) =>
+    backEdges.has(conn) ? { from: conn.to, to: conn.from, conn } : { from: conn.from, to: conn.to, conn }
+  );
+
+  // 2. Ranking by longest path from the sources
+  const rank = new Map(ids.map((id) => [id, 0]));
+  const inDegree = new Map(ids.map((id) => [id, 0]));
+  edges.forEach((e) => inDegree.set(e.to, inDegree.get(e.to) + 1));
+  const queue = ids.filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift();
+    edges.forEach((e) => {
+      if (e.from !== id) return;
+      rank.set(e.to, Math.max(rank.get(e.to), rank.get(id) + 1));
+      inDegree.set(e.to, inDegree.get(e.to) - 1);
+      if (inDegree.get(e.to) === 0) queue.push(e.to);
+    });
+  }
+  const layerCount = Math.max(0, ...rank.values()) + 1;
+
+  // 3. Long edges are split into dummy nodes, one per layer they cross
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  ids.forEach((id) => layers[rank.get(id)].push(id));
+
+  const segments: Segment[][] = Array.from({ length: layerCount }, () => []);
+  const chains = new Map<Connection, string[]>();
+  edges.forEach((e, i) => {
+    const chain = [e.from];
+    for (let r = rank.get(e.from) + 1; r < rank.get(e.to); r++) {
+      const dummy = `~${i}~${r}`;
+      rank.set(dummy, r);
+      layers[r].push(dummy);
+      chain.push(dummy);
+    }
+    chain.push(e.to);
+    chain.slice(1).forEach((id, j) => segments[rank.get(chain[j])].push({ upper: chain[j], lower: id }));
+    chains.set(e.conn, chain.slice(1, -1));
+  });
+
+  // 4. Crossing reduction: alternate down and up barycenter sweeps, keep the best ordering
+  const indexOf = () => new Map(layers.flatMap((layer) => layer.map((id, i) => [id, i] as const)));
+  const totalCrossings = () => {
+    const order = indexOf();
+    return segments.reduce((sum, layerSegments) => sum + countCrossings(layerSegments, order), 0);
+  };
+
+  const reorder = (r: number, neighbours: (id: string) => string[]) => {
+    const order = indexOf();
+    const barycenter = new Map(layers[r].map((id, i) => {
+      const adjacent = neighbours(id);
+      if (adjacent.length === 0) return [id, i] as const;
+      return [id, adjacent.reduce((sum, n) => sum + order.get(n), 0) / adjacent.length] as const;
+    }));
+    layers[r].sort((a, b) => barycenter.get(a) - barycenter.get(b));
+  };
+
+  const allSegments = segments.flat();
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = totalCrossings();
+  for (let sweep = 0; sweep < sweeps && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let r = 1; r < layerCount; r++) {
+        reorder(r, (id) => allSegments.filter((s) => s.lower === id).map((s) => s.upper));
+      }
+    } else {
+      for (let r = layerCount - 2; r >= 0; r--) {
+        reorder(r, (id) => allSegments.filter((s) => s.upper === id).map((s) => s.lower));
+      }
+    }
+
+    const crossings = totalCrossings();
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map((layer) => [...layer]);
+    }
+  }
+
+  // 5. Coordinates: layers run top to bottom, each one centred horizontally
+  const widths = new Map(universe.widgets.map((w) => [w.id, WIDGET_BASE_SIZE * universe.priorities[w.priority].scale]));
+  const coordinates = new Map<string, LayoutPosition>();
+  best.forEach((layer, r) => {
+    const sizes = layer.map((id) => widths.get(id) ?? DUMMY_WIDTH);
+    const total = sizes.reduce((sum, size) => sum + size, 0) + gap * (layer.length - 1);
+    let cursor = -total / 2;
+    layer.forEach((id, i) => {
+      coordinates.set(id, { x: cursor + sizes[i] / 2, y: ((layerCount - 1) / 2 - r) * layerSpacing });
+      cursor += sizes[i] + gap;
+    });
+  });
+
+  const routes: Record<string, LayoutPosition[]> = {};
+  chains.forEach((dummies, conn) => {
+    if (dummies.length === 0) return;
+    const waypoints = dummies.map((id) => coordinates.get(id));
+    // Waypoints always run from the connection's source to its target
+    routes[connectionKey(conn)] = backEdges.has(conn) ? waypoints.reverse() : waypoints;
+  });
+
+  return {
+    positions: Object.fromEntries(ids.map((id) => [id, coordinates.get(id)])),
+    routes,
+    backEdges: [...backEdges].map(connectionKey),
+  };
+};
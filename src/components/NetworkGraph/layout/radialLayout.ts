@@ -0,0 +1,63 @@
+import type { LayoutPosition, UniverseDocument } from '../types';
+import { hopDistances, type UniverseLayout } from './graph';
+
+interface RadialLayoutOptions {
+  // Minimum radius of the 1-hop ring; every further ring adds ringSpacing
+  innerRadius?: number;
+  ringSpacing?: number;
+  // Arc length reserved per widget, rings grow when they get crowded
+  arcPerWidget?: number;
+}
+
+const onRing = (radius: number, angle: number): LayoutPosition => ({
+  x: Math.round(Math.cos(angle) * radius * 1000) / 1000,
+  y: Math.round(Math.sin(angle) * radius * 1000) / 1000,
+});
+
+// Ego network: the focused widget in the centre, 1-hop and 2-hop neighbours on concentric rings,
+// everything else on an outer ring. Connection routes of the base layout no longer apply.
+export const computeRadialLayout = (
+  universe: UniverseDocument,
+  centerId: string,
+  base: UniverseLayout,
+  { innerRadius = 2.2, ringSpacing = 2, arcPerWidget = 1.6 }: RadialLayoutOptions = {}
+): UniverseLayout => {
+  const hops = hopDistances(universe, centerId);
+  const rings: string[][] = [[], [], []];
+  universe.widgets.forEach((widget) => {
+    if (widget.id === centerId) return;
+    const hop = hops.get(widget.id);
+    rings[hop === 1 ? 0 : hop === 2 ? 1 : 2].push(widget.id);
+  });
+
+  const positions: Record<string, LayoutPosition> = { [centerId]: { x: 0, y: 0 } };
+  const angles = new Map<string, number>();
+  let minRadius = innerRadius;
+
+  rings.forEach((ring, r) => {
+    if (ring.length === 0) return;
+
+    // 2-hop widgets follow the angle of the neighbour that leads to them, to keep their edges short
+    if (r === 1) {
+      const neighbourHops = new Map(rings[0].map((n) => [n, hopDistances(universe, n)]));
+      const parentAngle = (id: string) => {
+        const via = rings[0].filter((n) => neighbourHops.get(n).get(id) === 1);
+        return via.length > 0 ? Math.min(...via.map((n) => angles.get(n))) : 0;
+      };
+      const keyed = new Map(ring.map((id) => [id, parentAngle(id)]));
+      ring.sort((a, b) => keyed.get(a) - keyed.get(b));
+    }
+
+    const radius = Math.max(minRadius, (ring.length * arcPerWidget) / (2 * Math.PI));
+    const step = (2 * Math.PI) / ring.length;
+    // Each ring starts at the top, so the first neighbour sits straight above the centre
+    ring.forEach((id, i) => {
+      const angle = Math.PI / 2 + i * step;
+      angles.set(id, angle);
+      positions[id] = onRing(radius, angle);
+    });
+    minRadius = radius + ringSpacing;
+  });
+
+  return { positions, routes: {}, backEdges: base.backEdges };
+};
@@ -0,0 +1,64 @@
+import { useMemo, useRef, useState, type MutableRefObject } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { WidgetPositions } from './graph';
+
+export interface AnimatedLayout {
+  // Where the widgets came to rest; only these re-render the level
+  positions: WidgetPositions;
+  // Where the widgets are this frame, for group refs and curves updated in useFrame
+  live: MutableRefObject<WidgetPositions>;
+}
+
+// Runs before the frame callbacks that read `live`
+export const LAYOUT_FRAME_PRIORITY = -2;
+
+// Tweens widgets towards a new layout without re-rendering; React sees the layout once it settles.
+// Held widgets stay where the pointer puts them and ease from there once released.
+export const useAnimatedLayout = (target: WidgetPositions, held: WidgetPositions | null = null): AnimatedLayout => {
+  const [settled, setSettled] = useState(target);
+  const live = useRef(target);
+
+  useFrame(() => {
+    const prev = live.current;
+    if (prev === target && !held) {
+      if (settled !== target) setSettled(target);
+      return;
+    }
+
+    let isSettled = true;
+    let changed = false;
+    const next: WidgetPositions = {};
+    Object.entries(target).forEach(([id, to]) => {
+      const from = prev[id];
+      if (held?.[id]) {
+        next[id] = held[id];
+        isSettled = false;
+        changed ||= from !== held[id];
+        return;
+      }
+      if (from === to) {
+        next[id] = to;
+        return;
+      }
+
+      changed = true;
+      const x = THREE.MathUtils.lerp((from ?? to).x, to.x, 0.08);
+      const y = THREE.MathUtils.lerp((from ?? to).y, to.y, 0.08);
+      if (Math.abs(x - to.x) < 0.001 && Math.abs(y - to.y) < 0.001) {
+        next[id] = to;
+      } else {
+        isSettled = false;
+        next[id] = { x, y };
+      }
+    });
+    if (!changed && !isSettled) return;
+
+    live.current = isSettled ? target : next;
+    if (isSettled) setSettled(target);
+  }, LAYOUT_FRAME_PRIORITY);
+
+  // Widgets added since the layout last settled are placed at their target
+  const positions = useMemo(() => (settled === target ? settled : { ...target, ...settled }), [settled, target]);
+  return { positions, live };
+};
@@ -0,0 +1,35 @@
+import { connectionTypeSchema, prioritySchema } from './universeSchema';
+import type { ConnectionType, LegendFilter, Priority, UniverseDocument } from './types';
+
+// Connection type and priority names never collide, so one list carries both
+export type LegendEntry = ConnectionType | Priority;
+
+export const EMPTY_LEGEND_FILTER: LegendFilter = { connections: [], priorities: [] };
+
+// Kept in registry order, so equal filters always serialize to the same link
+export const parseLegendFilter = (entries: string[]): LegendFilter => ({
+  connections: connectionTypeSchema.options.filter((type) => entries.includes(type)),
+  priorities: prioritySchema.options.filter((priority) => entries.includes(priority)),
+});
+
+export const legendFilterEntries = (filter: LegendFilter): LegendEntry[] => [...filter.connections, ...filter.priorities];
+
+export const toggleLegendEntry = (filter: LegendFilter, entry: LegendEntry): LegendFilter => {
+  const entries = legendFilterEntries(filter);
+  return parseLegendFilter(entries.includes(entry) ? entries.filter((e) => e !== entry) : [...entries, entry]);
+};
+
+// What the legends leave on screen; layouts keep using the full universe so hiding never reshuffles it
+export const applyLegendFilter = (universe: UniverseDocument, filter: LegendFilter): UniverseDocument => {
+  if (legendFilterEntries(filter).length === 0) return universe;
+
+  const widgets = universe.widgets.filter((widget) => !filter.priorities.includes(widget.priority));
+  const shown = new Set(widgets.map((widget) => widget.id));
+  return {
+    ...universe,
+    widgets: widgets.map((widget) => ({ ...widget, connects: widget.connects.filter((id) => shown.has(id)) })),
+    connections: universe.connections.filter(
+      (conn) => !filter.connections.includes(conn.type) && shown.has(conn.from) && shown.has(conn.to)
+    ),
+  };
+};
@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState } from 'react';
+import { z } from 'zod';
+import { connectionSchema, healthStatusSchema, widgetSchema } from './universeSchema';
+import type { Connection, Metrics, NestedUniverse, StreamEvent, StreamSource, UniverseDocument, Widget } from './types';
+
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+const pathSchema = z.array(z.string()).default([]);
+const indexSchema = z.number().int().min(0).optional();
+
+const streamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('widget.upsert'), path: pathSchema, widget: widgetSchema, index: indexSchema }),
+  z.object({ type: z.literal('widget.remove'), path: pathSchema, id: z.string().min(1) }),
+  z.object({ type: z.literal('connection.upsert'), path: pathSchema, connection: connectionSchema, index: indexSchema }),
+  z.object({ type: z.literal('connection.remove'), path: pathSchema, from: z.string().min(1), to: z.string().min(1) }),
+  z.object({
+    type: z.literal('metrics'),
+    path: pathSchema,
+    id: z.string().min(1),
+    infoLoad: z.number().min(0).max(1).optional(),
+    status: healthStatusSchema.optional(),
+  }),
+  z.object({ type: z.literal('status'), path: pathSchema, id: z.string().min(1), status: healthStatusSchema }),
+]) as z.ZodType<StreamEvent, z.ZodTypeDef, unknown>;
+
+// A message carries one event or a batch of them
+const streamMessageSchema = z.union([streamEventSchema, z.array(streamEventSchema)]);
+
+export type StreamStatus =
+  | { state: 'off' }
+  | { state: 'connecting' }
+  | { state: 'open' }
+  | { state: 'reconnecting'; attempt: number; delay: number };
+
+// Streamed metric ticks and statuses by level path ('' for the root) and widget id
+export type LiveMetrics = Record<string, Record<string, Metrics>>;
+
+// Ticks stay out of the document: a new widget list would make every level lay itself out again
+export interface StreamedUniverse {
+  document: UniverseDocument;
+  metrics: LiveMetrics;
+}
+
+type LevelContent = Pick<NestedUniverse, 'widgets' | 'connections'>;
+
+// Inserts at the index when one is given and fits, appends otherwise
+const insertAt = <T>(list: T[], item: T, index?: number) =>
+  index === undefined || index >= list.length ? [...list, item] : [...list.slice(0, index), item, ...list.slice(index)];
+
+// The universe shown at the end of the dive path, read the same way updateLevel walks it
+export const findLevel = (document: UniverseDocument, path: string[]): NestedUniverse | null => {
+  let level: NestedUniverse = document;
+  for (const widgetId of path) {
+    const widget = level.widgets.find((w) => w.id === widgetId);
+    const next = typeof widget?.universe === 'string' ? document.universes?.[widget.universe] : widget?.universe;
+    if (!next) return null;
+    level = next;
+  }
+  return level;
+};
+
+// Rebuilds only the universes along the dive path, so untouched levels keep their cached layouts.
+// A step into a library universe continues in UniverseDocument.universes, shared by every widget that references it.
+const updateLevel = (
+  document: UniverseDocument,
+  path: string[],
+  update: (level: LevelContent) => LevelContent
+): UniverseDocument => {
+  let library = document.universes;
+
+  const walk = <T extends NestedUniverse>(universe: T, rest: string[]): T => {
+    if (rest.length === 0) {
+      const next = update(universe);
+      return next.widgets === universe.widgets && next.connections === universe.connections
+        ? universe
+        : { ...universe, ...next };
+    }
+
+    const [widgetId, ...tail] = rest;
+    const widget = universe.widgets.find((w) => w.id === widgetId);
+    if (typeof widget?.universe === 'string') {
+      const shared = library?.[widget.universe];
+      const next = shared && walk(shared, tail);
+      if (next && next !== shared) library = { ...library, [widget.universe]: next };
+      return universe;
+    }
+    // A path that does not resolve changes nothing
+    if (!widget?.universe) return universe;
+
+    const child = walk(widget.universe, tail);
+    if (child === widget.universe) return universe;
+    return { ...universe, widgets: universe.widgets.map((w) => (w === widget ? { ...w, universe: child } : w)) };
+  };
+
+  const root = walk(document, path);
+  return library === document.universes ? root : { ...root, universes: library };
+};
+
+// Unknown `connects` targets are dropped; an upsert without a universe keeps the one the widget had
+const upsertWidget = ({ widgets, connections }: LevelContent, widget: Widget, index?: number): LevelContent => {
+  const existing = widgets.find((w) => w.id === widget.id);
+  const ids = new Set(widgets.map((w) => w.id));
+  const next = { ...widget, connects: widget.connects.filter((id) => ids.has(id) && id !== widget.id) };
+  if (!next.universe && existing?.universe) next.universe = existing.universe;
+
+  return {
+    widgets: existing ? widgets.map((w) => (w === existing ? next : w)) : insertAt(widgets, next, index),
+    connections,
+  };
+};
+
+const removeWidget = (level: LevelContent, id: string): LevelContent => {
+  if (!level.widgets.some((w) => w.id === id)) return level;
+  return {
+    widgets: level.widgets
+      .filter((w) => w.id !== id)
+      .map((w) => (w.connects.includes(id) ? { ...w, connects: w.connects.filter((c) => c !== id) } : w)),
+    connections: level.connections.filter((c) => c.from !== id && c.to !== id),
+  };
+};
+
+// One connection per ordered pair, as connectionKey assumes; both ends must already exist
+const upsertConnection = (level: LevelContent, connection: Connection, index?: number): LevelContent => {
+  const ids = new Set(level.widgets.map((w) => w.id));
+  if (!ids.has(connection.from) || !ids.has(connection.to)) return level;
+
+  const existing = level.connections.find((c) => c.from === connection.from && c.to === connection.to);
+  return {
+    widgets: level.widgets,
+    connections: existing
+      ? level.connections.map((c) => (c === existing ? connection : c))
+      : insertAt(level.connections, connection, index),
+  };
+};
+
+const removeConnection = (level: LevelContent, from: string, to: string): LevelContent => {
+  const connections = level.connections.filter((c) => c.from !== from || c.to !== to);
+  return connections.length === level.connections.length ? level : { widgets: level.widgets, connections };
+};
+
+export const applyStreamEvent = (state: StreamedUniverse, event: StreamEvent): StreamedUniverse => {
+  const levelKey = event.path.join('/');
+  const levelMetrics = state.metrics[levelKey] ?? {};
+
+  switch (event.type) {
+    case 'metrics':
+    case 'status': {
+      // Fields a tick leaves out keep their last streamed value
+      const tick: Metrics = { ...levelMetrics[event.id] };
+      if (event.type === 'metrics' && event.infoLoad !== undefined) tick.infoLoad = event.infoLoad;
+      if (event.status) tick.status = event.status;
+      return { ...state, metrics: { ...state.metrics, [levelKey]: { ...levelMetrics, [event.id]: tick } } };
+    }
+    case 'widget.upsert':
+      return { ...state, document: updateLevel(state.document, event.path, (level) => upsertWidget(level, event.widget, event.index)) };
+    case 'widget.remove': {
+      const { [event.id]: removed, ...rest } = levelMetrics;
+      return {
+        document: updateLevel(state.document, event.path, (level) => removeWidget(level, event.id)),
+        metrics: removed ? { ...state.metrics, [levelKey]: rest } : state.metrics,
+      };
+    }
+    case 'connection.upsert':
+      return { ...state, document: updateLevel(state.document, event.path, (level) => upsertConnection(level, event.connection, event.index)) };
+    case 'connection.remove':
+      return { ...state, document: updateLevel(state.document, event.path, (level) => removeConnection(level, event.from, event.to)) };
+  }
+};
+
+// Malformed messages are reported and skipped, the stream itself keeps going
+export const parseStreamMessage = (data: string): StreamEvent[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    console.warn('Universe stream: message is not JSON', data);
+    return [];
+  }
+
+  const result = streamMessageSchema.safeParse(json);
+  if (!result.success) {
+    console.warn('Universe stream: invalid event', result.error.issues);
+    return [];
+  }
+  return Array.isArray(result.data) ? result.data : [result.data];
+};
+
+// Doubles from one second up to half a minute; the jitter keeps many screens from reconnecting in lockstep
+const retryDelay = (attempt: number) =>
+  Math.min(MAX_RETRY_DELAY, INITIAL_RETRY_DELAY * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+
+interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onDrop: () => void;
+}
+
+// Returns a close function that does not report a drop
+const openTransport = (url: string, { onOpen, onMessage, onDrop }: TransportHandlers) => {
+  if (/^wss?:/.test(url)) {
+    const socket = new WebSocket(url);
+    socket.onopen = onOpen;
+    socket.onmessage = (event) => onMessage(String(event.data));
+    socket.onclose = onDrop;
+    return () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  }
+
+  const source = new EventSource(url);
+  source.onopen = onOpen;
+  source.onmessage = (event) => onMessage(event.data);
+  // EventSource would retry by itself at a fixed pace; the backoff takes over instead
+  source.onerror = () => {
+    source.close();
+    onDrop();
+  };
+  return () => source.close();
+};
+
+// Connects while a source is set and hands every event to onEvent; reconnects with backoff after a drop
+export const useUniverseStream = (source: StreamSource | undefined, onEvent: (event: StreamEvent) => void) => {
+  const url = source?.url;
+  const [status, setStatus] = useState<StreamStatus>({ state: url ? 'connecting' : 'off' });
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!url) {
+      setStatus({ state: 'off' });
+      return;
+    }
+
+    let attempt = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let close = () => {};
+
+    const connect = () => {
+      close = openTransport(url, {
+        onOpen: () => {
+          attempt = 0;
+          setStatus({ state: 'open' });
+        },
+        onMessage: (data) => parseStreamMessage(data).forEach((event) => onEventRef.current(event)),
+        onDrop: () => {
+          attempt += 1;
+          const delay = retryDelay(attempt);
+          setStatus({ state: 'reconnecting', attempt, delay });
+          timer = setTimeout(connect, delay);
+        },
+      });
+    };
+
+    setStatus({ state: 'connecting' });
+    connect();
+    return () => {
+      clearTimeout(timer);
+      close();
+    };
+  }, [url]);
+
+  return status;
+};
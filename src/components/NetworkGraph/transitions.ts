@@ -0,0 +1,65 @@
+import { useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import type { LevelFade } from './frameClock';
+
+// Share of the remaining way covered per frame: an ease-out like the level fades
+const TRANSITION_SPEED = 0.08;
+const EXITED_BELOW = 0.01;
+
+// An item of a transitioning list. `fade.scale` runs from 0 to 1 after the item appears and back to 0
+// once it is removed; `fade.opacity` follows it, already multiplied by the level's own fade.
+export interface Transition<T> {
+  key: string;
+  item: T;
+  fade: LevelFade;
+  isLeaving: boolean;
+}
+
+// Diffs the list by key between renders. Removed items stay in the result with their last value until
+// they have faded out, so live updates grow in and fade away instead of popping.
+export const useTransitions = <T>(items: T[], keyOf: (item: T) => string, level: LevelFade): Transition<T>[] => {
+  // Last value of every item still on screen, leaving ones included, in order of appearance
+  const shown = useRef(new Map<string, T>());
+  const fades = useRef(new Map<string, LevelFade>());
+  const [leaving, setLeaving] = useState<ReadonlySet<string>>(() => new Set());
+
+  const present = new Set(items.map(keyOf));
+  const isStale =
+    [...shown.current.keys()].some((key) => !present.has(key) && !leaving.has(key)) ||
+    [...leaving].some((key) => present.has(key));
+  // Adjusting state while rendering: React re-renders right away, so a removed item never misses a frame
+  if (isStale) {
+    setLeaving(new Set([...shown.current.keys()].filter((key) => !present.has(key))));
+  }
+  items.forEach((item) => shown.current.set(keyOf(item), item));
+
+  const fadeFor = (key: string) => {
+    let fade = fades.current.get(key);
+    if (!fade) {
+      fade = { scale: 0, opacity: 0 };
+      fades.current.set(key, fade);
+    }
+    return fade;
+  };
+
+  useFrame(() => {
+    const exited: string[] = [];
+    shown.current.forEach((_, key) => {
+      const fade = fadeFor(key);
+      const isLeaving = leaving.has(key);
+      fade.scale = THREE.MathUtils.lerp(fade.scale, isLeaving ? 0 : 1, TRANSITION_SPEED);
+      fade.opacity = fade.scale * level.opacity;
+      if (isLeaving && fade.scale < EXITED_BELOW) exited.push(key);
+    });
+    if (exited.length === 0) return;
+
+    exited.forEach((key) => {
+      shown.current.delete(key);
+      fades.current.delete(key);
+    });
+    setLeaving((prev) => new Set([...prev].filter((key) => !exited.includes(key))));
+  });
+
+  return [...shown.current].map(([key, item]) => ({ key, item, fade: fadeFor(key), isLeaving: leaving.has(key) }));
+};
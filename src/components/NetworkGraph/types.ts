@@ -19,3 +19,184 @@ export interface AnimationState {
   phase: 'birth' | 'growth' | 'stable';
   isPaused: boolean;
 }
+
+// Universe document - the data a FractalUniverse renders
+export type Priority = 'critical' | 'high' | 'medium' | 'low';
+
+export type ConnectionType = 'dataFlow' | 'dependency' | 'contextLink' | 'logicChain';
+
+export type HealthStatus = 'ok' | 'degraded' | 'down' | 'unknown';
+
+// How a status spreads from dependencies to their dependents, e.g. degraded if any critical dependency is down
+export interface HealthRule {
+  when: HealthStatus; // dependency status that triggers the rule; worse statuses count too
+  match: 'any' | 'all'; // of the dependencies the rule looks at
+  then: HealthStatus; // the dependent is at least this unhealthy
+  via?: ConnectionType[]; // connections that make a dependency, dependency and dataFlow by default
+  priorities?: Priority[]; // only dependencies of these tiers
+}
+
+// Polled HTTP endpoint answering with Metrics as JSON
+export interface DataSource {
+  url: string;
+  interval?: number; // ms between polls, 5000 by default
+}
+
+// Live values a data source reports; missing fields keep the document's values
+export interface Metrics {
+  infoLoad?: number; // 0-1
+  status?: HealthStatus;
+}
+
+// Event stream that changes the document while it is shown; ws:// and wss:// use a WebSocket, other URLs SSE
+export interface StreamSource {
+  url: string;
+}
+
+export interface MiniWidget {
+  // `lucide:<name>`, `svg:<name>` or an emoji, see iconRegistry
+  icon: string;
+  label: string;
+  source?: DataSource; // shows the reported load next to the label
+}
+
+export interface Widget {
+  id: string;
+  // Pinned position; widgets without one are placed by the layout engine
+  x?: number;
+  y?: number;
+  title: string;
+  subtitle?: string;
+  icon: string; // same format as MiniWidget.icon
+  priority: Priority;
+  infoLoad: number; // 0-1
+  status?: HealthStatus; // reported health, ok when absent
+  source?: DataSource; // live infoLoad and status
+  color: string;
+  miniWidgets?: MiniWidget[];
+  connects: string[];
+  // Child universe shown when diving in: inline, or a key into UniverseDocument.universes
+  universe?: NestedUniverse | string;
+}
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+// Widget with its final on-plane position resolved
+export type PlacedWidget = Widget & LayoutPosition;
+
+export interface Connection {
+  from: string;
+  to: string;
+  type: ConnectionType;
+  label?: string; // written along the line
+  weight?: number; // throughput, drawn through the universe's weightScale
+  description?: string;
+  payloadSchema?: string; // dataFlow only: shape of the data sent along the connection
+}
+
+export interface ConnectionStyle {
+  label: string;
+  color: string;
+  dash?: boolean;
+  particles?: boolean;
+  arrows?: boolean;
+}
+
+export interface PriorityStyle {
+  label: string;
+  scale: number;
+  color: string;
+}
+
+// Value a visual takes at the lightest and at the heaviest weight of a scale
+export interface WeightRange {
+  from: number;
+  to: number;
+}
+
+// How Connection.weight shows: weights between min and max spread each range from `from` to `to`
+export interface WeightScale {
+  label: string; // legend heading, e.g. the unit of the weights
+  min: number;
+  max: number;
+  curve?: 'linear' | 'sqrt' | 'log'; // sqrt and log set light weights further apart, linear by default
+  lineWidth: WeightRange;
+  particles: WeightRange; // per Data Flow connection
+  speed: WeightRange; // share of the connection a particle covers per second
+}
+
+// Connection types and priority tiers switched off in the legends
+export interface LegendFilter {
+  connections: ConnectionType[];
+  priorities: Priority[];
+}
+
+// Sub-universe owned by a widget; styles, priorities and health rules fall back to the parent's
+export interface NestedUniverse {
+  title: string;
+  subtitle?: string;
+  widgets: Widget[];
+  connections: Connection[];
+  styles?: Partial<Record<ConnectionType, ConnectionStyle>>;
+  priorities?: Partial<Record<Priority, PriorityStyle>>;
+  healthRules?: HealthRule[];
+  weightScale?: WeightScale;
+}
+
+export interface UniverseDocument {
+  title: string;
+  subtitle?: string;
+  widgets: Widget[];
+  connections: Connection[];
+  styles: Record<ConnectionType, ConnectionStyle>;
+  priorities: Record<Priority, PriorityStyle>;
+  // Applied to every level unless a nested universe brings its own rules
+  healthRules?: HealthRule[];
+  // Weighted connections use a default scale when there is none
+  weightScale?: WeightScale;
+  // Shared sub-universes that widgets can reference by key
+  universes?: Record<string, NestedUniverse>;
+  stream?: StreamSource;
+}
+
+// One change to a level of the document, pushed by a stream or made in the editor;
+// `path` is the dive path of the level it applies to, empty for the root.
+// `index` places a new widget or connection in its list, at the end when absent.
+export type StreamEvent =
+  | { type: 'widget.upsert'; path: string[]; widget: Widget; index?: number }
+  | { type: 'widget.remove'; path: string[]; id: string }
+  | { type: 'connection.upsert'; path: string[]; connection: Connection; index?: number }
+  | { type: 'connection.remove'; path: string[]; from: string; to: string }
+  | { type: 'metrics'; path: string[]; id: string; infoLoad?: number; status?: HealthStatus }
+  | { type: 'status'; path: string[]; id: string; status: HealthStatus };
+
+// One connection along a path; `reversed` when it is walked from its `to` end
+export interface PathStep {
+  connection: Connection;
+  reversed: boolean;
+}
+
+// Path mode: the shortest route between two widgets of the active level
+export interface PathQuery {
+  source: string | null;
+  target: string | null;
+  types: ConnectionType[]; // usable connection types, empty for all
+  directed: boolean;
+}
+
+// Path mode as the active level draws it; steps stay null until both ends are picked or when no route exists
+export interface PathHighlight {
+  source: string | null;
+  target: string | null;
+  steps: PathStep[] | null;
+}
+
+// Downstream blast radius of a failed widget, by hop distance from it
+export interface ImpactAnalysis {
+  failed: string;
+  widgets: Map<string, number>; // affected widgets, the failed one at 0
+  connections: Map<string, number>; // connection key → hop at which the failure crosses it
+}
@@ -0,0 +1,58 @@
+import defaultUniverseJson from './defaultUniverse.json';
+import { parseUniverseDocument } from './universeSchema';
+import type { UniverseDocument, Widget } from './types';
+
+// Widget ecosystem shown when no document is supplied
+export const DEFAULT_UNIVERSE: UniverseDocument = parseUniverseDocument(defaultUniverseJson);
+
+// Universe a widget dives into; styles, priorities, health rules, the weight scale and the shared library are inherited
+export const resolveChildUniverse = (parent: UniverseDocument, widget: Widget): UniverseDocument | null => {
+  const nested = typeof widget.universe === 'string'
+    ? parent.universes?.[widget.universe]
+    : widget.universe;
+  if (!nested) return null;
+
+  return {
+    ...nested,
+    styles: { ...parent.styles, ...nested.styles },
+    priorities: { ...parent.priorities, ...nested.priorities },
+    healthRules: nested.healthRules ?? parent.healthRules,
+    weightScale: nested.weightScale ?? parent.weightScale,
+    universes: parent.universes,
+  };
+};
+
+export const isSamePath = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, i) => id === b[i]);
+
+// A widget somewhere in the nested universes, with the dive path to the level that shows it
+export interface WidgetLocation {
+  path: string[];
+  trail: string[]; // titles of the levels along the path, starting with the root
+  widget: Widget;
+}
+
+// Every widget reachable by diving; library universes already on the branch are not entered again
+export const collectWidgets = (
+  universe: UniverseDocument,
+  path: string[] = [],
+  trail: string[] = [universe.title],
+  libraryBranch: string[] = []
+): WidgetLocation[] =>
+  universe.widgets.flatMap((widget) => {
+    const location = { path, trail, widget };
+    const libraryKey = typeof widget.universe === 'string' ? widget.universe : null;
+    if (libraryKey && libraryBranch.includes(libraryKey)) return [location];
+
+    const child = resolveChildUniverse(universe, widget);
+    if (!child) return [location];
+    return [
+      location,
+      ...collectWidgets(
+        child,
+        [...path, widget.id],
+        [...trail, widget.title],
+        libraryKey ? [...libraryBranch, libraryKey] : libraryBranch
+      ),
+    ];
+  });
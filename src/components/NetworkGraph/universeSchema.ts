@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { isKnownIconRef } from './iconRegistry';
+import type { NestedUniverse, UniverseDocument, Widget } from './types';
+
+export const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a #RRGGBB color');
+
+export const prioritySchema = z.enum(['critical', 'high', 'medium', 'low']);
+
+export const connectionTypeSchema = z.enum(['dataFlow', 'dependency', 'contextLink', 'logicChain']);
+
+export const healthStatusSchema = z.enum(['ok', 'degraded', 'down', 'unknown']);
+
+const healthRuleSchema = z.object({
+  when: healthStatusSchema,
+  match: z.enum(['any', 'all']),
+  then: healthStatusSchema,
+  via: z.array(connectionTypeSchema).optional(),
+  priorities: z.array(prioritySchema).optional(),
+});
+
+// Emoji are accepted as they are, `lucide:` and `svg:` references must be registered
+export const iconSchema = z.string().min(1).refine(isKnownIconRef, (ref) => ({ message: `Unknown icon "${ref}"` }));
+
+const dataSourceSchema = z.object({
+  url: z.string().min(1),
+  interval: z.number().int().min(500).optional(),
+});
+
+export const miniWidgetSchema = z.object({
+  icon: iconSchema,
+  label: z.string().min(1),
+  source: dataSourceSchema.optional(),
+});
+
+export const connectionSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  type: connectionTypeSchema,
+  label: z.string().optional(),
+  weight: z.number().min(0).optional(),
+  description: z.string().optional(),
+  payloadSchema: z.string().optional(),
+});
+
+const connectionStyleSchema = z.object({
+  label: z.string().min(1),
+  color: hexColor,
+  dash: z.boolean().optional(),
+  particles: z.boolean().optional(),
+  arrows: z.boolean().optional(),
+});
+
+const priorityStyleSchema = z.object({
+  label: z.string().min(1),
+  scale: z.number().positive(),
+  color: hexColor,
+});
+
+const weightRangeSchema = (value: z.ZodNumber) => z.object({ from: value, to: value });
+
+const weightScaleSchema = z
+  .object({
+    label: z.string().min(1),
+    min: z.number(),
+    max: z.number(),
+    curve: z.enum(['linear', 'sqrt', 'log']).optional(),
+    lineWidth: weightRangeSchema(z.number().min(0)),
+    particles: weightRangeSchema(z.number().int().min(0).max(20)),
+    speed: weightRangeSchema(z.number().min(0)),
+  })
+  .refine((scale) => scale.max > scale.min, { message: 'max must be greater than min', path: ['max'] });
+
+const stylesShape = {
+  dataFlow: connectionStyleSchema,
+  dependency: connectionStyleSchema,
+  contextLink: connectionStyleSchema,
+  logicChain: connectionStyleSchema,
+};
+
+const prioritiesShape = {
+  critical: priorityStyleSchema,
+  high: priorityStyleSchema,
+  medium: priorityStyleSchema,
+  low: priorityStyleSchema,
+};
+
+// Widgets and nested universes refer to each other, hence the lazy schemas.
+// The casts pin the inferred shapes to the interfaces in ./types.
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export const widgetSchema = z.lazy(() =>
+  z.object({
+    id: z.string().min(1),
+    x: z.number().optional(),
+    y: z.number().optional(),
+    title: z.string().min(1),
+    subtitle: z.string().optional(),
+    icon: iconSchema,
+    priority: prioritySchema,
+    infoLoad: z.number().min(0).max(1),
+    status: healthStatusSchema.optional(),
+    source: dataSourceSchema.optional(),
+    color: hexColor,
+    miniWidgets: z.array(miniWidgetSchema).optional(),
+    connects: z.array(z.string()).default([]),
+    universe: z.union([z.string().min(1), nestedUniverseSchema]).optional(),
+  }).refine((widget) => (widget.x === undefined) === (widget.y === undefined), {
+    message: 'x and y must be pinned together',
+    path: ['x'],
+  })
+) as Schema<Widget>;
+
+const nestedUniverseSchema = z.lazy(() =>
+  z.object({
+    title: z.string(),
+    subtitle: z.string().optional(),
+    widgets: z.array(widgetSchema),
+    connections: z.array(connectionSchema),
+    styles: z.object(stylesShape).partial().optional(),
+    priorities: z.object(prioritiesShape).partial().optional(),
+    healthRules: z.array(healthRuleSchema).optional(),
+    weightScale: weightScaleSchema.optional(),
+  })
+) as Schema<NestedUniverse>;
+
+type Path = (string | number)[];
+
+// Ids must be unique per level and every reference must resolve
+const checkReferences = (
+  universe: NestedUniverse,
+  path: Path,
+  library: Set<string>,
+  ctx: z.RefinementCtx
+) => {
+  const ids = new Set<string>();
+  universe.widgets.forEach((widget, i) => {
+    if (ids.has(widget.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'widgets', i, 'id'], message: `Duplicate widget id "${widget.id}"` });
+    }
+    ids.add(widget.id);
+  });
+
+  universe.widgets.forEach((widget, i) => {
+    const widgetPath = [...path, 'widgets', i];
+    widget.connects.forEach((id, j) => {
+      if (!ids.has(id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...widgetPath, 'connects', j], message: `Unknown widget "${id}"` });
+      }
+    });
+
+    if (typeof widget.universe === 'string') {
+      if (!library.has(widget.universe)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...widgetPath, 'universe'], message: `Unknown universe "${widget.universe}"` });
+      }
+    } else if (widget.universe) {
+      checkReferences(widget.universe, [...widgetPath, 'universe'], library, ctx);
+    }
+  });
+
+  // A connection is addressed by its ends, so one ordered pair can only carry one type
+  const pairs = new Map<string, number>();
+  universe.connections.forEach((conn, i) => {
+    (['from', 'to'] as const).forEach((end) => {
+      if (!ids.has(conn[end])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [...path, 'connections', i, end], message: `Unknown widget "${conn[end]}"` });
+      }
+    });
+
+    const pair = JSON.stringify([conn.from, conn.to]);
+    if (pairs.has(pair)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [...path, 'connections', i],
+        message: `Duplicate connection "${conn.from}" → "${conn.to}", already at connections[${pairs.get(pair)}]`,
+      });
+    } else {
+      pairs.set(pair, i);
+    }
+  });
+};
+
+export const universeDocumentSchema = z
+  .object({
+    title: z.string(),
+    subtitle: z.string().optional(),
+    widgets: z.array(widgetSchema),
+    connections: z.array(connectionSchema),
+    styles: z.object(stylesShape),
+    priorities: z.object(prioritiesShape),
+    healthRules: z.array(healthRuleSchema).optional(),
+    weightScale: weightScaleSchema.optional(),
+    universes: z.record(nestedUniverseSchema).optional(),
+    stream: z.object({ url: z.string().min(1) }).optional(),
+  })
+  .superRefine((input, ctx) => {
+    const doc = input as UniverseDocument;
+    const library = new Set(Object.keys(doc.universes ?? {}));
+    checkReferences(doc, [], library, ctx);
+    Object.entries(doc.universes ?? {}).forEach(([key, universe]) => {
+      checkReferences(universe, ['universes', key], library, ctx);
+    });
+  });
+
+// widgets[3].priority, styles.dataFlow.color, ...
+const formatPath = (path: Path) =>
+  path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+
+export type UniverseValidationResult =
+  | { success: true; document: UniverseDocument }
+  | { success: false; errors: string[] };
+
+export const validateUniverseDocument = (input: unknown): UniverseValidationResult => {
+  const result = universeDocumentSchema.safeParse(input);
+  if (result.success) {
+    return { success: true, document: result.data as UniverseDocument };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => `${formatPath(issue.path) || '(root)'}: ${issue.message}`),
+  };
+};
+
+export const parseUniverseDocument = (input: unknown): UniverseDocument => {
+  const result = validateUniverseDocument(input);
+  if ('errors' in result) {
+    throw new Error(`Invalid universe document:\n${result.errors.join('\n')}`);
+  }
+  return result.document;
+};
@@ -0,0 +1,37 @@
+import { validateUniverseDocument } from './universeSchema';
+import type { UniverseDocument } from './types';
+
+const STORAGE_KEY = 'lenin-core:universe';
+
+// Document edited in the scene, kept between sessions. A copy that no longer validates,
+// e.g. after the schema changed, is dropped and the default universe comes back.
+export const loadStoredUniverse = (): UniverseDocument | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const result = validateUniverseDocument(JSON.parse(stored));
+    if (!('errors' in result)) return result.document;
+    console.warn(`Stored universe is invalid and was dropped:\n${result.errors.join('\n')}`);
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Stored universe could not be read', error);
+  }
+  return null;
+};
+
+export const storeUniverse = (document: UniverseDocument) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(document));
+  } catch (error) {
+    // Full or disabled storage only costs persistence, the edit itself stays
+    console.warn('Universe could not be saved', error);
+  }
+};
+
+export const clearStoredUniverse = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Stored universe could not be removed', error);
+  }
+};
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import { useForm, type DefaultValues, type FieldValues } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { z } from 'zod';
+
+interface LiveFormOptions<S, T extends FieldValues> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // What the document currently holds, e.g. a widget
+  source: S;
+  toValues: (source: S) => T;
+  fromValues: (source: S, values: T) => S;
+  onChange: (source: S) => void;
+}
+
+// Form input as the document would store it, or null while it is invalid
+const storedValues = <S, T extends FieldValues>({ schema, source, toValues, fromValues }: LiveFormOptions<S, T>, input: unknown) => {
+  const result = schema.safeParse(input);
+  return result.success ? { next: fromValues(source, result.data), key: JSON.stringify(toValues(fromValues(source, result.data))) } : null;
+};
+
+// Form for the inspectors: every valid change is handed to onChange as it is typed, and changes made
+// elsewhere, e.g. an undo, are taken over. Both sides are compared as the document would store them,
+// so input that stores the same, like "1." for 1, is neither sent nor reset.
+export const useLiveForm = <S, T extends FieldValues>(options: LiveFormOptions<S, T>) => {
+  const { toValues, source } = options;
+  const form = useForm<T>({
+    resolver: zodResolver(options.schema),
+    defaultValues: toValues(source) as DefaultValues<T>,
+    mode: 'onChange',
+  });
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const current = JSON.stringify(toValues(source));
+
+  // Form → document
+  useEffect(() => {
+    const subscription = form.watch((input) => {
+      const latest = optionsRef.current;
+      const stored = storedValues(latest, input);
+      if (stored && stored.key !== JSON.stringify(latest.toValues(latest.source))) latest.onChange(stored.next);
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  // Document → form
+  useEffect(() => {
+    const latest = optionsRef.current;
+    if (storedValues(latest, form.getValues())?.key !== current) form.reset(latest.toValues(latest.source));
+  }, [current, form]);
+
+  return form;
+};
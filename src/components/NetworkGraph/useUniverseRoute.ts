@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { legendFilterEntries, parseLegendFilter } from './legendFilter';
+import type { LegendFilter } from './types';
+
+// Deep links look like /u/lmm-core/inference?select=attention&cam=0.12,0.4,1.8&hide=dependency,low
+export const UNIVERSE_ROUTE_PREFIX = '/u';
+
+export interface UniverseRoute {
+  path: string[];
+  select: string | null;
+  camera: [number, number, number] | null;
+  hidden: LegendFilter;
+}
+
+const parseCamera = (value: string | null): [number, number, number] | null => {
+  if (!value) return null;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 3 || parts.some(n => !Number.isFinite(n))) return null;
+  return [parts[0], parts[1], parts[2]];
+};
+
+// A broken escape, e.g. in a truncated link, ends the path at the last level that still decodes
+const decodePath = (segments: string[]) => {
+  const path: string[] = [];
+  for (const segment of segments) {
+    try {
+      path.push(decodeURIComponent(segment));
+    } catch {
+      break;
+    }
+  }
+  return path;
+};
+
+export const parseUniverseRoute = (pathname: string, search: string): UniverseRoute => {
+  const params = new URLSearchParams(search);
+  const path = pathname.startsWith(`${UNIVERSE_ROUTE_PREFIX}/`)
+    ? decodePath(pathname.slice(UNIVERSE_ROUTE_PREFIX.length + 1).split('/').filter(Boolean))
+    : [];
+
+  return {
+    path,
+    select: params.get('select'),
+    camera: parseCamera(params.get('cam')),
+    hidden: parseLegendFilter(params.get('hide')?.split(',') ?? []),
+  };
+};
+
+export const buildUniverseRoute = ({ path, select, camera, hidden }: UniverseRoute): string => {
+  const pathname = path.length > 0
+    ? `${UNIVERSE_ROUTE_PREFIX}/${path.map(encodeURIComponent).join('/')}`
+    : '/';
+
+  // Assembled by hand so the camera commas stay readable in pasted links
+  const params: string[] = [];
+  if (select) params.push(`select=${encodeURIComponent(select)}`);
+  if (camera) params.push(`cam=${camera.map(n => n.toFixed(2)).join(',')}`);
+  const hiddenEntries = legendFilterEntries(hidden);
+  if (hiddenEntries.length > 0) params.push(`hide=${hiddenEntries.join(',')}`);
+
+  return params.length > 0 ? `${pathname}?${params.join('&')}` : pathname;
+};
+
+// Each history entry remembers the levels of the entries pushed before it, so moving
+// to one of them goes back in the browser history instead of pushing a copy
+interface RouteState {
+  trail: string[];
+}
+
+const trailOf = (state: unknown, path: string[]): string[] =>
+  (state as RouteState | null)?.trail ?? [path.join('/')];
+
+export const useUniverseRoute = () => {
+  const location = useLocation();
+  const navigate = useNavigate();
+  const locationRef = useRef(location);
+  locationRef.current = location;
+  // Going back through history is asynchronous; the address is left alone until it lands
+  const pendingRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    pendingRef.current = null;
+  }, [location.key]);
+
+  // Hidden legend entries keep their identity while only the camera or selection changes
+  const hideParam = new URLSearchParams(location.search).get('hide');
+  const hidden = useMemo(() => parseLegendFilter(hideParam?.split(',') ?? []), [hideParam]);
+
+  const route = useMemo(
+    () => ({ ...parseUniverseRoute(location.pathname, location.search), hidden }),
+    [location.pathname, location.search, hidden]
+  );
+
+  const setRoute = useCallback((next: UniverseRoute, options?: { replace?: boolean }) => {
+    if (pendingRef.current !== null) return;
+    const current = locationRef.current;
+    const trail = trailOf(current.state, parseUniverseRoute(current.pathname, current.search).path);
+    const key = next.path.join('/');
+
+    if (options?.replace) {
+      navigate(buildUniverseRoute(next), { replace: true, state: { trail: [...trail.slice(0, -1), key] } });
+      return;
+    }
+    const earlier = trail.lastIndexOf(key, trail.length - 2);
+    if (earlier !== -1 && trail.length > 1) {
+      pendingRef.current = current.key;
+      navigate(earlier - (trail.length - 1));
+      return;
+    }
+    navigate(buildUniverseRoute(next), { state: { trail: [...trail, key] } });
+  }, [navigate]);
+
+  return { route, setRoute };
+};
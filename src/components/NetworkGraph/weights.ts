@@ -0,0 +1,39 @@
+import type { WeightRange, WeightScale } from './types';
+
+// How a connection is drawn: line width, Data Flow particles and their speed
+export interface ConnectionWeight {
+  lineWidth: number;
+  particles: number;
+  speed: number; // share of the connection a particle covers per second
+}
+
+// Connections without a weight look the way every connection always did
+export const UNWEIGHTED: ConnectionWeight = { lineWidth: 1.5, particles: 3, speed: 0.4 };
+
+// For weighted connections in documents that bring no scale
+export const DEFAULT_WEIGHT_SCALE: WeightScale = {
+  label: 'Weight',
+  min: 0,
+  max: 100,
+  curve: 'sqrt',
+  lineWidth: { from: 1, to: 5 },
+  particles: { from: 1, to: 7 },
+  speed: { from: 0.2, to: 1 },
+};
+
+// Position on the scale, 0 to 1, bent by the curve
+const CURVES: Record<NonNullable<WeightScale['curve']>, (t: number) => number> = {
+  linear: (t) => t,
+  sqrt: Math.sqrt,
+  log: (t) => Math.log1p(t * 9) / Math.LN10,
+};
+
+export const connectionWeight = (scale: WeightScale, weight: number | undefined): ConnectionWeight => {
+  if (weight === undefined) return UNWEIGHTED;
+  const t = CURVES[scale.curve ?? 'linear'](Math.min(1, Math.max(0, (weight - scale.min) / (scale.max - scale.min))));
+  const spread = ({ from, to }: WeightRange) => from + (to - from) * t;
+  return { lineWidth: spread(scale.lineWidth), particles: Math.round(spread(scale.particles)), speed: spread(scale.speed) };
+};
+
+// Weights the legend shows: both ends and the middle of the scale
+export const legendWeights = ({ min, max }: WeightScale) => [min, (min + max) / 2, max];